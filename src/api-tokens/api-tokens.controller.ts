@@ -0,0 +1,177 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  ParseIntPipe,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { ApiTokensService } from './api-tokens.service';
+import { CreateApiTokenDto } from './dto/create-api-token.dto';
+import { JwtAuthGuard } from '../guards/jwt-auth.guard';
+import { CurrentUser } from '../decorators/current-user.decorator';
+
+@ApiTags('API Tokens')
+@Controller('api-tokens')
+export class ApiTokensController {
+  constructor(private readonly apiTokensService: ApiTokensService) {}
+
+  @Post()
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Create a personal access token',
+    description:
+      'Create a named API token for scripts and integrations. Send it as "Authorization: Bearer <token>". It can only call endpoints covered by its scopes. The token value is shown only in this response, so store it right away. Every API token is revoked when the account password is changed or reset.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'API token created successfully',
+    schema: {
+      example: {
+        id: 3,
+        name: 'Daily digest bot',
+        token: 'ph_q3Jx0c2m6Qk1m0...',
+        scopes: ['read', 'posts:write'],
+        expires_at: '2024-04-24T10:00:00.000Z',
+        created_at: '2024-01-25T10:00:00.000Z',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad Request - Invalid input data',
+    schema: {
+      example: {
+        statusCode: 400,
+        message: [
+          'each value in scopes must be one of the following values: read, posts:write, comments:write, likes:write, follows:write, profile:write, mutes:read, mutes:write',
+        ],
+        error: 'Bad Request',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing access token',
+    schema: {
+      example: {
+        statusCode: 401,
+        message: 'Access token not found',
+        error: 'Unauthorized',
+      },
+    },
+  })
+  async create(
+    @CurrentUser() userId: number,
+    @Body() createApiTokenDto: CreateApiTokenDto,
+  ) {
+    return this.apiTokensService.create(userId, createApiTokenDto);
+  }
+
+  @Get()
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'List personal access tokens',
+    description:
+      'Get all API tokens of the current user. Only the first characters of each token are shown.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'API tokens retrieved successfully',
+    schema: {
+      example: {
+        tokens: [
+          {
+            id: 3,
+            name: 'Daily digest bot',
+            token_prefix: 'ph_q3Jx0c2',
+            scopes: ['read', 'posts:write'],
+            expires_at: '2024-04-24T10:00:00.000Z',
+            last_used_at: '2024-01-26T08:00:00.000Z',
+            created_at: '2024-01-25T10:00:00.000Z',
+          },
+        ],
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing access token',
+    schema: {
+      example: {
+        statusCode: 401,
+        message: 'Access token not found',
+        error: 'Unauthorized',
+      },
+    },
+  })
+  async findAll(@CurrentUser() userId: number) {
+    return this.apiTokensService.findAllForUser(userId);
+  }
+
+  @Delete(':id')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Revoke a personal access token',
+    description: 'Delete an API token. It stops working immediately.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'API token ID',
+    example: 3,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'API token revoked successfully',
+    schema: {
+      example: {
+        message: 'API token revoked successfully',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing access token',
+    schema: {
+      example: {
+        statusCode: 401,
+        message: 'Access token not found',
+        error: 'Unauthorized',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'API token not found',
+    schema: {
+      example: {
+        statusCode: 404,
+        message: 'API token not found',
+        error: 'Not Found',
+      },
+    },
+  })
+  async revoke(
+    @CurrentUser() userId: number,
+    @Param('id', ParseIntPipe) id: number,
+  ) {
+    return this.apiTokensService.revoke(id, userId);
+  }
+}
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ApiTokensService } from './api-tokens.service';
+import { ApiTokensController } from './api-tokens.controller';
+import { ApiToken } from './entities/api-token.entity';
+import { JwtModule } from '../jwt/jwt.module';
+import { SessionsModule } from '../sessions/sessions.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([ApiToken]), JwtModule, SessionsModule],
+  controllers: [ApiTokensController],
+  providers: [ApiTokensService],
+  exports: [ApiTokensService],
+})
+export class ApiTokensModule {}
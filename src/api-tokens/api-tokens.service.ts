@@ -0,0 +1,157 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { createHash, randomBytes } from 'crypto';
+import { ApiToken, ApiTokenScope } from './entities/api-token.entity';
+import { CreateApiTokenDto } from './dto/create-api-token.dto';
+import { User } from '../users/entities/user.entity';
+import { errorHandler } from '../utils/error_handler';
+
+export const API_TOKEN_PREFIX = 'ph_';
+
+export interface ApiTokenPrincipal {
+  tokenId: number;
+  userId: number;
+  scopes: ApiTokenScope[];
+}
+
+// Skip the last_used_at write when the token was used this recently
+const LAST_USED_PRECISION_MS = 60 * 1000;
+
+@Injectable()
+export class ApiTokensService {
+  constructor(
+    @InjectRepository(ApiToken)
+    private readonly apiTokenRepo: Repository<ApiToken>,
+  ) {}
+
+  async create(userId: number, createApiTokenDto: CreateApiTokenDto) {
+    try {
+      const token = `${API_TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`;
+
+      const expiresAt = createApiTokenDto.expires_in_days
+        ? new Date(
+            Date.now() +
+              createApiTokenDto.expires_in_days * 24 * 60 * 60 * 1000,
+          )
+        : null;
+
+      const apiToken = this.apiTokenRepo.create({
+        name: createApiTokenDto.name,
+        token_prefix: token.slice(0, 10),
+        hashed_token: this.hashToken(token),
+        scopes: createApiTokenDto.scopes,
+        expires_at: expiresAt,
+        user: { id: userId } as User,
+      });
+
+      const saved = await this.apiTokenRepo.save(apiToken);
+
+      // The plain token is returned only here and never stored
+      return {
+        id: saved.id,
+        name: saved.name,
+        token,
+        scopes: saved.scopes,
+        expires_at: saved.expires_at,
+        created_at: saved.created_at,
+      };
+    } catch (error) {
+      errorHandler(error, 'ApiTokensService.create');
+    }
+  }
+
+  async findAllForUser(userId: number) {
+    try {
+      const tokens = await this.apiTokenRepo.find({
+        where: { user: { id: userId } },
+        order: { created_at: 'DESC' },
+      });
+
+      return { tokens };
+    } catch (error) {
+      errorHandler(error, 'ApiTokensService.findAllForUser');
+    }
+  }
+
+  async revoke(id: number, userId: number) {
+    try {
+      const deleteRes = await this.apiTokenRepo.delete({
+        id,
+        user: { id: userId },
+      });
+
+      if (deleteRes.affected === 0) {
+        throw new NotFoundException('API token not found');
+      }
+
+      return { message: 'API token revoked successfully' };
+    } catch (error) {
+      errorHandler(error, 'ApiTokensService.revoke');
+    }
+  }
+
+  // Tokens do not outlive a password change or reset
+  async removeAllForUser(userId: number) {
+    try {
+      const deleteRes = await this.apiTokenRepo.delete({
+        user: { id: userId },
+      });
+
+      return deleteRes.affected || 0;
+    } catch (error) {
+      errorHandler(error, 'ApiTokensService.removeAllForUser');
+    }
+  }
+
+  async validate(token: string): Promise<ApiTokenPrincipal | null> {
+    try {
+      const apiToken = await this.apiTokenRepo.findOne({
+        where: {
+          hashed_token: this.hashToken(token),
+          user: { deactivated_at: IsNull() },
+        },
+        relations: ['user'],
+        select: {
+          id: true,
+          scopes: true,
+          expires_at: true,
+          last_used_at: true,
+          user: { id: true },
+        },
+      });
+
+      if (!apiToken) {
+        return null;
+      }
+
+      const now = Date.now();
+
+      if (apiToken.expires_at && apiToken.expires_at.getTime() <= now) {
+        return null;
+      }
+
+      if (
+        !apiToken.last_used_at ||
+        now - apiToken.last_used_at.getTime() > LAST_USED_PRECISION_MS
+      ) {
+        await this.apiTokenRepo.update(
+          { id: apiToken.id },
+          { last_used_at: new Date(now) },
+        );
+      }
+
+      return {
+        tokenId: apiToken.id,
+        userId: apiToken.user.id,
+        scopes: apiToken.scopes,
+      };
+    } catch (error) {
+      errorHandler(error, 'ApiTokensService.validate');
+    }
+  }
+
+  private hashToken(token: string) {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
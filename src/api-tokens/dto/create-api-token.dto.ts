@@ -0,0 +1,51 @@
+import {
+  ArrayNotEmpty,
+  ArrayUnique,
+  IsArray,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ApiTokenScope } from '../entities/api-token.entity';
+
+export class CreateApiTokenDto {
+  @ApiProperty({
+    description: 'Name to recognize the token by',
+    example: 'Daily digest bot',
+    maxLength: 50,
+  })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(50)
+  name: string;
+
+  @ApiProperty({
+    description: 'Permissions granted to the token',
+    enum: ApiTokenScope,
+    isArray: true,
+    example: [ApiTokenScope.READ, ApiTokenScope.POSTS_WRITE],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayUnique()
+  @IsEnum(ApiTokenScope, { each: true })
+  scopes: ApiTokenScope[];
+
+  @ApiPropertyOptional({
+    description: 'Days until the token expires (omit for no expiry)',
+    example: 90,
+    minimum: 1,
+    maximum: 365,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  expires_in_days?: number;
+}
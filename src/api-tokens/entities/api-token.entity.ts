@@ -0,0 +1,59 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+
+export enum ApiTokenScope {
+  READ = 'read',
+  POSTS_WRITE = 'posts:write',
+  COMMENTS_WRITE = 'comments:write',
+  LIKES_WRITE = 'likes:write',
+  FOLLOWS_WRITE = 'follows:write',
+  PROFILE_WRITE = 'profile:write',
+  MUTES_READ = 'mutes:read',
+  MUTES_WRITE = 'mutes:write',
+}
+
+@Entity('api_tokens')
+export class ApiToken {
+  @PrimaryGeneratedColumn('increment')
+  id: number;
+
+  @Column({ type: 'varchar', length: 50, nullable: false })
+  name: string;
+
+  // First characters of the token, shown so users can tell tokens apart
+  @Column({ type: 'varchar', length: 16, nullable: false })
+  token_prefix: string;
+
+  @Column({
+    type: 'varchar',
+    length: 64,
+    nullable: false,
+    unique: true,
+    select: false,
+  })
+  hashed_token: string;
+
+  @Column({ type: 'text', array: true, nullable: false })
+  scopes: ApiTokenScope[];
+
+  @Column({ type: 'timestamptz', nullable: true })
+  expires_at: Date | null;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  last_used_at: Date | null;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  created_at: Date;
+
+  @ManyToOne(() => User, (user) => user.api_tokens, {
+    onDelete: 'CASCADE',
+    nullable: false,
+  })
+  user: User;
+}
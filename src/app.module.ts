@@ -11,6 +11,10 @@ import { FollowsModule } from './follows/follows.module';
 import { PostModule } from './post/post.module';
 import { CommentModule } from './comment/comment.module';
 import { LikesModule } from './likes/likes.module';
+import { SessionsModule } from './sessions/sessions.module';
+import { ApiTokensModule } from './api-tokens/api-tokens.module';
+import { OidcModule } from './oidc/oidc.module';
+import { MutesModule } from './mutes/mutes.module';
 
 @Module({
   imports: [
@@ -44,6 +48,10 @@ import { LikesModule } from './likes/likes.module';
     PostModule,
     CommentModule,
     LikesModule,
+    SessionsModule,
+    ApiTokensModule,
+    OidcModule,
+    MutesModule,
   ],
   controllers: [],
   providers: [],
@@ -8,18 +8,26 @@ import {
   UseGuards,
   Req,
   Patch,
+  Delete,
+  Param,
+  ParseIntPipe,
   HttpCode,
   HttpStatus,
+  Redirect,
+  BadRequestException,
 } from '@nestjs/common';
 import {
   ApiTags,
   ApiOperation,
   ApiResponse,
   ApiQuery,
+  ApiParam,
   ApiBearerAuth,
   ApiCookieAuth,
+  ApiHeader,
 } from '@nestjs/swagger';
 import { AuthService } from './auth.service';
+import { LinkPagesService } from './link-pages.service';
 import { CreateUserDto } from '../users/dto/create-user.dto';
 import { LoginDto } from './dto/login.dto';
 import type { Request, Response } from 'express';
@@ -27,18 +35,35 @@ import { JwtAuthGuard } from '../guards/jwt-auth.guard';
 import { CurrentUser } from '../decorators/current-user.decorator';
 import { UpdatePasswordDto } from './dto/update-password.dto';
 import { UpdateEmailDto } from './dto/update-email.dto';
+import { ForgotPasswordDto } from './dto/forgot-password.dto';
+import { ResetPasswordDto } from './dto/reset-password.dto';
+import { ResendActivationDto } from './dto/resend-activation.dto';
+import { TwoFactorCodeDto } from './dto/two-factor-code.dto';
+import { DisableTwoFactorDto } from './dto/disable-two-factor.dto';
+import { VerifyTwoFactorDto } from './dto/verify-two-factor.dto';
+import { CompleteOidcSignupDto } from './dto/complete-oidc-signup.dto';
+import { MagicLinkDto } from './dto/magic-link.dto';
+import { ConsumeMagicLinkDto } from './dto/consume-magic-link.dto';
+import { SecureAccountDto } from './dto/secure-account.dto';
+import { ReauthDto } from './dto/reauth.dto';
+import { ReauthGuard } from '../guards/reauth.guard';
+import { RequiresReauth } from '../decorators/requires-reauth.decorator';
+import { CsrfGuard } from '../guards/csrf.guard';
 
 @ApiTags('Authentication')
 @Controller('auth')
 export class AuthController {
-  constructor(private readonly authService: AuthService) {}
+  constructor(
+    private readonly authService: AuthService,
+    private readonly linkPagesService: LinkPagesService,
+  ) {}
 
   @Post('signup')
   @HttpCode(HttpStatus.CREATED)
   @ApiOperation({
     summary: 'Register a new user',
     description:
-      'Create a new user account. An activation email will be sent to the provided email address. The account must be activated within 24 hours, or it will be automatically deleted.',
+      'Create a new user account. An activation email will be sent to the provided email address. The account must be activated within 24 hours, or it will be automatically deleted. Signing up again with the email of an account that was never activated replaces that pending registration.',
   })
   @ApiResponse({
     status: 201,
@@ -61,6 +86,28 @@ export class AuthController {
       },
     },
   })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad Request - Password does not meet the password policy',
+    schema: {
+      example: {
+        statusCode: 400,
+        message: 'Password does not meet the requirements',
+        error: 'Bad Request',
+        reasons: [
+          {
+            code: 'too_short',
+            message: 'Password must be at least 8 characters long',
+          },
+          {
+            code: 'common_password',
+            message:
+              'This password is too common or has appeared in data breaches',
+          },
+        ],
+      },
+    },
+  })
   @ApiResponse({
     status: 409,
     description: 'Conflict - Username or email already exists',
@@ -76,12 +123,39 @@ export class AuthController {
     return this.authService.signUp(createUserDto);
   }
 
+  @Get('password-policy')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Get the password policy',
+    description:
+      'Rules that new passwords must satisfy on signup, password change and password reset. minStrength is a guessing-resistance score from 0 (very weak) to 4 (very strong). Passwords that break a rule are rejected with a 400 listing every failed rule.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Current password policy',
+    schema: {
+      example: {
+        minLength: 8,
+        maxLength: 72,
+        requireLowercase: false,
+        requireUppercase: false,
+        requireDigit: false,
+        requireSymbol: false,
+        minStrength: 2,
+        rejectCommon: true,
+      },
+    },
+  })
+  getPasswordPolicy() {
+    return this.authService.getPasswordPolicy();
+  }
+
   @Get('activate')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
     summary: 'Activate user account (Email verification link)',
     description:
-      '⚠️ This endpoint is NOT for frontend applications. It is accessed by users clicking the activation link in their email. After signup, users receive an email with a link containing the activation token. This link expires in 24 hours.',
+      'Opened by users clicking the activation link in their email, or called by the frontend page that ACTIVATION_URL_TEMPLATE points the link at. After signup, users receive an email with a link containing the activation token. This link expires in 24 hours. Browsers get an HTML result page, or are redirected to LINK_RESULT_REDIRECT_URL with action, status and message query parameters when it is set. Other clients get the plain result.',
     deprecated: false,
   })
   @ApiQuery({
@@ -118,11 +192,53 @@ export class AuthController {
     status: 404,
     description: 'User not found',
     schema: {
-      example: 'User not found',
+      example: {
+        statusCode: 404,
+        message: 'User not found',
+        error: 'Not Found',
+      },
+    },
+  })
+  async activate(
+    @Query('token') token: string,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    return this.linkPagesService.respond(req, res, 'activate', () =>
+      this.authService.activate(token, req),
+    );
+  }
+
+  @Post('resend-activation')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Resend the activation email',
+    description:
+      'Send a new activation link to an account that has not been activated yet. The 24 hour activation window restarts from the new email. Each address can request a new email once per minute.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Request accepted',
+    schema: {
+      example: {
+        message:
+          'If a pending account with that email exists, a new activation email has been sent',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 429,
+    description: 'Too Many Requests - Activation email was sent recently',
+    schema: {
+      example: {
+        statusCode: 429,
+        message:
+          'Please wait 42 seconds before requesting another activation email',
+      },
     },
   })
-  async activate(@Query('token') token: string) {
-    return this.authService.activate(token);
+  async resendActivation(@Body() resendActivationDto: ResendActivationDto) {
+    return this.authService.resendActivation(resendActivationDto);
   }
 
   @Post('login')
@@ -130,7 +246,7 @@ export class AuthController {
   @ApiOperation({
     summary: 'Login to account',
     description:
-      'Authenticate user with username/email and password. Returns an access token and sets a refresh token cookie.',
+      'Authenticate user with username/email and password. Returns an access token and sets a refresh token cookie. If two-factor authentication is enabled, returns a short-lived challenge token instead, which must be exchanged at /auth/2fa/verify. Repeated failures slow down further attempts and finally lock logins for the account or IP address for a while. Logging in to a deleted account during its grace period restores it and adds reactivated: true to the response.',
   })
   @ApiResponse({
     status: 200,
@@ -141,6 +257,16 @@ export class AuthController {
       },
     },
   })
+  @ApiResponse({
+    status: 200,
+    description: 'Password accepted, two-factor code required',
+    schema: {
+      example: {
+        twoFactorRequired: true,
+        challengeToken: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+      },
+    },
+  })
   @ApiResponse({
     status: 401,
     description: 'Unauthorized - Invalid credentials',
@@ -163,11 +289,90 @@ export class AuthController {
       },
     },
   })
+  @ApiResponse({
+    status: 429,
+    description:
+      'Too Many Requests - Too many failed attempts for this account or IP address',
+    schema: {
+      example: {
+        statusCode: 429,
+        message:
+          'Too many failed login attempts. Please try again in 900 seconds.',
+      },
+    },
+  })
   async logIn(
     @Body() loginDto: LoginDto,
+    @Req() req: Request,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    return this.authService.logIn(loginDto, req, res);
+  }
+
+  @Post('magic-link')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Request a passwordless login link',
+    description:
+      'Email a login link to the given address if an activated account uses it. The response is the same whether or not the account exists. The link expires after JWT_MAGIC_LINK_EXPIRATION, works only once, and requesting a new link cancels the previous one. No new link is sent within MAGIC_LINK_COOLDOWN seconds of the last one.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Request accepted',
+    schema: {
+      example: {
+        message:
+          'If an account with that email exists, a login link has been sent',
+      },
+    },
+  })
+  async requestMagicLink(@Body() magicLinkDto: MagicLinkDto) {
+    return this.authService.requestMagicLink(magicLinkDto);
+  }
+
+  @Post('magic-link/consume')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Log in with a magic link',
+    description:
+      'Exchange the token from the magic link email for an access token and a refresh token cookie, like /auth/login. If two-factor authentication is enabled, returns a challenge token for /auth/2fa/verify instead.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Login successful',
+    schema: {
+      example: {
+        accessToken: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Link accepted, two-factor code required',
+    schema: {
+      example: {
+        twoFactorRequired: true,
+        challengeToken: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid, expired or already used link',
+    schema: {
+      example: {
+        statusCode: 401,
+        message: 'Invalid or expired login link',
+        error: 'Unauthorized',
+      },
+    },
+  })
+  async consumeMagicLink(
+    @Body() consumeMagicLinkDto: ConsumeMagicLinkDto,
+    @Req() req: Request,
     @Res({ passthrough: true }) res: Response,
   ) {
-    return this.authService.logIn(loginDto, res);
+    return this.authService.consumeMagicLink(consumeMagicLinkDto, req, res);
   }
 
   @Post('logout')
@@ -177,7 +382,7 @@ export class AuthController {
   @ApiOperation({
     summary: 'Logout from account',
     description:
-      'Logout the current user. Invalidates the refresh token and clears the refresh token cookie.',
+      'Logout the current session. Invalidates its refresh token and clears the refresh token cookie. Sessions on other devices stay active.',
   })
   @ApiResponse({
     status: 200,
@@ -201,18 +406,27 @@ export class AuthController {
   })
   async logOut(
     @CurrentUser() userId: number,
+    @CurrentUser('sessionId') sessionId: number,
+    @Req() req: Request,
     @Res({ passthrough: true }) res: Response,
   ) {
-    return this.authService.logOut(userId, res);
+    return this.authService.logOut(userId, sessionId, req, res);
   }
 
   @Post('refresh')
+  @UseGuards(CsrfGuard)
   @ApiCookieAuth('refreshToken')
+  @ApiHeader({
+    name: 'X-CSRF-Token',
+    description:
+      'Value of the csrfToken cookie, which is set together with the refresh token cookie',
+    required: true,
+  })
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
     summary: 'Refresh access token',
     description:
-      'Generate a new access token using the refresh token from cookies. Also generates and sets a new refresh token.',
+      'Generate a new access token using the refresh token from cookies. Also generates and sets a new refresh token; the old one stops working. Presenting an already rotated refresh token revokes the whole session. The X-CSRF-Token header must repeat the value of the csrfToken cookie; it changes whenever the refresh token cookie is set.',
   })
   @ApiResponse({
     status: 200,
@@ -245,6 +459,30 @@ export class AuthController {
       },
     },
   })
+  @ApiResponse({
+    status: 401,
+    description:
+      'Unauthorized - An already rotated refresh token was used, the session is revoked, the event is logged and the owner gets a security alert email',
+    schema: {
+      example: {
+        statusCode: 401,
+        message: 'Refresh token reuse detected. Please log in again.',
+        error: 'Unauthorized',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 403,
+    description:
+      'Forbidden - The CSRF header is missing or does not match the csrfToken cookie',
+    schema: {
+      example: {
+        statusCode: 403,
+        message: 'Invalid or missing CSRF token',
+        error: 'Forbidden',
+      },
+    },
+  })
   async refresh(
     @Req() req: Request,
     @Res({ passthrough: true }) res: Response,
@@ -252,91 +490,154 @@ export class AuthController {
     return this.authService.refresh(res, req);
   }
 
-  @Patch('update-password')
+  @Get('security-log')
   @UseGuards(JwtAuthGuard)
   @ApiBearerAuth('JWT-auth')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
-    summary: 'Update user password',
+    summary: 'Get the security activity log',
     description:
-      'Change the password for the authenticated user. Requires current password for verification.',
+      'Security events of the current user, newest first (20 per page): successful and failed logins, token refreshes, refresh token reuse, logouts, password and email changes and account activation. Each event records the IP address, user agent and a coarse device description. The log is append-only.',
+  })
+  @ApiQuery({
+    name: 'page',
+    description: 'Page number (default: 1)',
+    required: false,
+    example: 1,
   })
   @ApiResponse({
     status: 200,
-    description: 'Password updated successfully',
+    description: 'Security events retrieved successfully',
     schema: {
       example: {
-        success: true,
-        message: 'Password updated successfully',
+        events: [
+          {
+            id: 41,
+            type: 'login_succeeded',
+            ip: '203.0.113.7',
+            user_agent:
+              'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+            device: 'Chrome on Windows',
+            details: { method: 'password' },
+            created_at: '2024-01-26T08:15:00.000Z',
+          },
+          {
+            id: 40,
+            type: 'login_failed',
+            ip: '198.51.100.23',
+            user_agent: 'curl/8.4.0',
+            device: 'curl',
+            details: { method: 'password', reason: 'invalid_password' },
+            created_at: '2024-01-26T08:10:00.000Z',
+          },
+        ],
+        total: 2,
+        page: 1,
+        totalPages: 1,
       },
     },
   })
   @ApiResponse({
     status: 400,
-    description: 'Bad Request - Passwords do not match',
+    description: 'Bad Request - Invalid page',
     schema: {
       example: {
         statusCode: 400,
-        message: 'Passwords do not match',
+        message: 'page must be a valid integer',
         error: 'Bad Request',
       },
     },
   })
   @ApiResponse({
     status: 401,
-    description: 'Unauthorized - Invalid current password',
+    description: 'Unauthorized - Invalid or missing access token',
     schema: {
       example: {
         statusCode: 401,
-        message: 'Invalid credentials',
+        message: 'Access token not found',
         error: 'Unauthorized',
       },
     },
   })
+  async getSecurityLog(
+    @CurrentUser() userId: number,
+    @Query('page') page?: string,
+  ) {
+    if (page && !/^\d+$/.test(page)) {
+      throw new BadRequestException('page must be a valid integer');
+    }
+    return this.authService.getSecurityLog(
+      userId,
+      page ? parseInt(page, 10) : 1,
+    );
+  }
+
+  @Get('sessions')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'List active sessions',
+    description:
+      'Get every device the current user is logged in on, most recently used first. The session making the request is marked with current: true.',
+  })
   @ApiResponse({
-    status: 401,
-    description: 'Unauthorized - Access token not found',
+    status: 200,
+    description: 'Sessions retrieved successfully',
     schema: {
       example: {
-        statusCode: 401,
-        message: 'Access token not found',
-        error: 'Unauthorized',
+        sessions: [
+          {
+            id: 12,
+            user_agent:
+              'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+            ip: '203.0.113.7',
+            created_at: '2024-01-25T10:00:00.000Z',
+            last_used_at: '2024-01-26T08:15:00.000Z',
+            current: true,
+          },
+        ],
       },
     },
   })
   @ApiResponse({
-    status: 404,
-    description: 'User not found',
+    status: 401,
+    description: 'Unauthorized - Invalid or missing access token',
     schema: {
       example: {
-        statusCode: 404,
-        message: 'User not found',
-        error: 'Not Found',
+        statusCode: 401,
+        message: 'Access token not found',
+        error: 'Unauthorized',
       },
     },
   })
-  async updatePassword(
+  async getSessions(
     @CurrentUser() userId: number,
-    @Body() updatePasswordDto: UpdatePasswordDto,
+    @CurrentUser('sessionId') sessionId: number,
   ) {
-    return this.authService.updatePassword(userId, updatePasswordDto);
+    return this.authService.getSessions(userId, sessionId);
   }
 
-  @Patch('update-email')
+  @Delete('sessions/:id')
   @UseGuards(JwtAuthGuard)
   @ApiBearerAuth('JWT-auth')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
-    summary: 'Request email update',
+    summary: 'Revoke a session',
     description:
-      'Request to change user email address. A verification email will be sent to the new email address. The verification link expires in 1 hour.',
+      'Log out one device. Its refresh token stops working immediately; its access token expires on its own.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Session ID',
+    example: 12,
   })
   @ApiResponse({
     status: 200,
-    description: 'Verification email sent to new address',
+    description: 'Session revoked successfully',
     schema: {
       example: {
-        message: 'Please check your new email to update',
+        message: 'Session revoked successfully',
       },
     },
   })
@@ -353,66 +654,1039 @@ export class AuthController {
   })
   @ApiResponse({
     status: 404,
-    description: 'User not found',
+    description: 'Session not found',
     schema: {
       example: {
         statusCode: 404,
-        message: 'User not found',
+        message: 'Session not found',
         error: 'Not Found',
       },
     },
   })
+  async revokeSession(
+    @CurrentUser() userId: number,
+    @Param('id', ParseIntPipe) sessionId: number,
+  ) {
+    return this.authService.revokeSession(userId, sessionId);
+  }
+
+  @Post('reauth')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Confirm identity for sensitive actions',
+    description:
+      'Check the current password or a two-factor code and return a new access token for this session. Sensitive endpoints such as changing the email or deleting the account accept it for the next few minutes (reauthExpiresIn, in seconds). Failed attempts count towards the login lockout.',
+  })
   @ApiResponse({
-    status: 409,
-    description: 'Conflict - Email already exists',
+    status: 200,
+    description: 'Identity confirmed',
     schema: {
       example: {
-        statusCode: 409,
-        message: 'Email already exists',
-        error: 'Conflict',
+        accessToken: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+        reauthExpiresIn: 300,
       },
     },
   })
-  async updateEmail(
+  @ApiResponse({
+    status: 400,
+    description: 'Bad Request - Neither or both of password and code given',
+    schema: {
+      example: {
+        statusCode: 400,
+        message: 'Provide either your password or a two-factor code',
+        error: 'Bad Request',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid password or code',
+    schema: {
+      example: {
+        statusCode: 401,
+        message: 'Invalid credentials',
+        error: 'Unauthorized',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 429,
+    description: 'Too Many Requests - Too many failed attempts',
+    schema: {
+      example: {
+        statusCode: 429,
+        message:
+          'Too many failed login attempts. Please try again in 900 seconds.',
+      },
+    },
+  })
+  async reauthenticate(
     @CurrentUser() userId: number,
-    @Body() updateEmailDto: UpdateEmailDto,
+    @CurrentUser('sessionId') sessionId: number,
+    @Body() reauthDto: ReauthDto,
+    @Req() req: Request,
   ) {
-    return this.authService.updateEmail(userId, updateEmailDto);
+    return this.authService.reauthenticate(userId, sessionId, reauthDto, req);
   }
 
-  @Get('update-email')
+  @Post('logout-others')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
-    summary: 'Verify new email address (Email verification link)',
-    description:
-      '⚠️ This endpoint is NOT for frontend applications. It is accessed by users clicking the verification link sent to their new email address. After requesting an email update via PATCH /auth/update-email, users receive an email with a link containing the verification token. This link expires in 1 hour.',
-    deprecated: false,
-  })
-  @ApiQuery({
-    name: 'token',
+    summary: 'Logout from all other devices',
     description:
-      'JWT email update token (automatically included in email link)',
-    example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+      'Revoke every session of the current user except the one making the request.',
   })
   @ApiResponse({
     status: 200,
-    description: 'Email updated successfully',
+    description: 'Other sessions revoked',
     schema: {
-      example: 'Email updated successfully',
+      example: {
+        message: 'Logged out from other devices',
+        revoked: 2,
+      },
     },
   })
   @ApiResponse({
     status: 401,
-    description: 'Invalid or expired token',
+    description: 'Unauthorized - Invalid or missing access token',
     schema: {
       example: {
         statusCode: 401,
-        message: 'Invalid or expired refresh token',
+        message: 'Access token not found',
         error: 'Unauthorized',
       },
     },
   })
-  async verifyNewEmail(@Query('token') token: string) {
-    return this.authService.verifyNewEmail(token);
+  async logOutOthers(
+    @CurrentUser() userId: number,
+    @CurrentUser('sessionId') sessionId: number,
+  ) {
+    return this.authService.logOutOthers(userId, sessionId);
+  }
+
+  @Patch('update-password')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Update user password',
+    description:
+      'Change the password for the authenticated user. Requires current password for verification. Every other session is logged out and every API token is revoked, while this session receives a new access token and refresh token cookie. A security alert with a link to undo the change is sent to the account email.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Password updated successfully',
+    schema: {
+      example: {
+        success: true,
+        message: 'Password updated successfully',
+        accessToken: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad Request - Passwords do not match',
+    schema: {
+      example: {
+        statusCode: 400,
+        message: 'Passwords do not match',
+        error: 'Bad Request',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad Request - Password does not meet the password policy',
+    schema: {
+      example: {
+        statusCode: 400,
+        message: 'Password does not meet the requirements',
+        error: 'Bad Request',
+        reasons: [
+          {
+            code: 'too_short',
+            message: 'Password must be at least 8 characters long',
+          },
+          {
+            code: 'common_password',
+            message:
+              'This password is too common or has appeared in data breaches',
+          },
+        ],
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid current password',
+    schema: {
+      example: {
+        statusCode: 401,
+        message: 'Invalid credentials',
+        error: 'Unauthorized',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Access token not found',
+    schema: {
+      example: {
+        statusCode: 401,
+        message: 'Access token not found',
+        error: 'Unauthorized',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'User not found',
+    schema: {
+      example: {
+        statusCode: 404,
+        message: 'User not found',
+        error: 'Not Found',
+      },
+    },
+  })
+  async updatePassword(
+    @CurrentUser() userId: number,
+    @CurrentUser('sessionId') sessionId: number,
+    @Body() updatePasswordDto: UpdatePasswordDto,
+    @Req() req: Request,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    return this.authService.updatePassword(
+      userId,
+      sessionId,
+      updatePasswordDto,
+      req,
+      res,
+    );
+  }
+
+  @Patch('update-email')
+  @UseGuards(JwtAuthGuard, ReauthGuard)
+  @RequiresReauth()
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Request email update',
+    description:
+      'Request to change user email address. A verification email will be sent to the new email address. The verification link expires in 1 hour. Once the change is verified, the previous address receives a security alert with a link to undo it. Requires a recent /auth/reauth.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Verification email sent to new address',
+    schema: {
+      example: {
+        message: 'Please check your new email to update',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing access token',
+    schema: {
+      example: {
+        statusCode: 401,
+        message: 'Access token not found',
+        error: 'Unauthorized',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Recent re-authentication required',
+    schema: {
+      example: {
+        statusCode: 403,
+        message: 'Please confirm your identity at /auth/reauth to continue',
+        error: 'Forbidden',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'User not found',
+    schema: {
+      example: {
+        statusCode: 404,
+        message: 'User not found',
+        error: 'Not Found',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Conflict - Email already exists',
+    schema: {
+      example: {
+        statusCode: 409,
+        message: 'Email already exists',
+        error: 'Conflict',
+      },
+    },
+  })
+  async updateEmail(
+    @CurrentUser() userId: number,
+    @Body() updateEmailDto: UpdateEmailDto,
+    @Req() req: Request,
+  ) {
+    return this.authService.updateEmail(userId, updateEmailDto, req);
+  }
+
+  @Get('update-email')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Verify new email address (Email verification link)',
+    description:
+      'Opened by users clicking the verification link sent to their new email address, or called by the frontend page that EMAIL_UPDATE_URL_TEMPLATE points the link at. After requesting an email update via PATCH /auth/update-email, users receive an email with a link containing the verification token. This link expires in 1 hour. Browsers get an HTML result page, or are redirected to LINK_RESULT_REDIRECT_URL with action, status and message query parameters when it is set. Other clients get the plain result.',
+    deprecated: false,
+  })
+  @ApiQuery({
+    name: 'token',
+    description:
+      'JWT email update token (automatically included in email link)',
+    example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Email updated successfully',
+    schema: {
+      example: 'Email updated successfully',
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Invalid or expired token',
+    schema: {
+      example: {
+        statusCode: 401,
+        message: 'Invalid or expired email update link',
+        error: 'Unauthorized',
+      },
+    },
+  })
+  async verifyNewEmail(
+    @Query('token') token: string,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    return this.linkPagesService.respond(req, res, 'update-email', () =>
+      this.authService.verifyNewEmail(token, req),
+    );
+  }
+
+  @Get('secure-account')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Confirm securing the account (Email link)',
+    description:
+      'Opened by users clicking "This wasn\'t me" in the alert sent to their previous address after an email or password change. Opening the link changes nothing, so mail scanners and link previews cannot trigger it. Browsers get a page with a button that posts the token to POST /auth/secure-account, or are redirected to LINK_RESULT_REDIRECT_URL with action=secure-account, status=confirm and the token when it is set. Other clients are told to POST the token.',
+  })
+  @ApiQuery({
+    name: 'token',
+    description:
+      'JWT security alert token (automatically included in email link)',
+    example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Confirmation required',
+    schema: {
+      example: {
+        message:
+          'Send the token in a POST request to /auth/secure-account to continue',
+      },
+    },
+  })
+  confirmSecureAccount(
+    @Query('token') token: string,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    return this.linkPagesService.confirm(req, res, 'secure-account', token, {
+      message:
+        'Securing your account logs out every device, revokes your API tokens, replaces your password and restores your previous email address if it was changed. We will email you a link to choose a new password.',
+      button: 'Secure my account',
+    });
+  }
+
+  @Post('secure-account')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Secure the account from a security alert',
+    description:
+      'Called by the confirmation page of GET /auth/secure-account, or by the frontend page that SECURE_ACCOUNT_URL_TEMPLATE points the link at. It restores the previous email address when it was changed, logs out every device, revokes every API token, replaces the password and emails a password reset link. The link expires in 7 days. Browsers get an HTML result page, or are redirected to LINK_RESULT_REDIRECT_URL with action, status and message query parameters when it is set. Other clients get the plain result.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Account secured',
+    schema: {
+      example:
+        'Your account has been secured. Check your email to choose a new password.',
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad Request - Invalid, expired or already used link',
+    schema: {
+      example: {
+        statusCode: 400,
+        message: 'Invalid or expired security link',
+        error: 'Bad Request',
+      },
+    },
+  })
+  async secureAccount(
+    @Body() secureAccountDto: SecureAccountDto,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    return this.linkPagesService.respond(req, res, 'secure-account', () =>
+      this.authService.secureAccount(secureAccountDto.token, req),
+    );
+  }
+
+  @Post('forgot-password')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Request a password reset email',
+    description:
+      'Send a password reset link to the given email address if an activated account uses it. The response is the same whether or not the account exists. The link expires after JWT_RESET_EXPIRATION and works only once. No new link is sent within PASSWORD_RESET_COOLDOWN seconds of the last one.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Request accepted',
+    schema: {
+      example: {
+        message:
+          'If an account with that email exists, a password reset link has been sent',
+      },
+    },
+  })
+  async forgotPassword(@Body() forgotPasswordDto: ForgotPasswordDto) {
+    return this.authService.forgotPassword(forgotPasswordDto);
+  }
+
+  @Post('reset-password')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Reset password with a reset token',
+    description:
+      'Set a new password using the token from the password reset email. On success every existing session is logged out and every API token is revoked.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Password reset successfully',
+    schema: {
+      example: {
+        success: true,
+        message: 'Password reset successfully. Please log in again.',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad Request - Passwords do not match',
+    schema: {
+      example: {
+        statusCode: 400,
+        message: 'Passwords do not match',
+        error: 'Bad Request',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad Request - Password does not meet the password policy',
+    schema: {
+      example: {
+        statusCode: 400,
+        message: 'Password does not meet the requirements',
+        error: 'Bad Request',
+        reasons: [
+          {
+            code: 'too_short',
+            message: 'Password must be at least 8 characters long',
+          },
+          {
+            code: 'common_password',
+            message:
+              'This password is too common or has appeared in data breaches',
+          },
+        ],
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad Request - Invalid, expired or already used reset link',
+    schema: {
+      example: {
+        statusCode: 400,
+        message: 'Invalid or expired reset link',
+        error: 'Bad Request',
+      },
+    },
+  })
+  async resetPassword(
+    @Body() resetPasswordDto: ResetPasswordDto,
+    @Req() req: Request,
+  ) {
+    return this.authService.resetPassword(resetPasswordDto, req);
+  }
+
+  @Post('2fa/enroll')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Start two-factor authentication enrollment',
+    description:
+      'Generate a new TOTP secret and one-time recovery codes. Add the otpauth URL to an authenticator app, then call /auth/2fa/confirm with a code from it. The recovery codes are shown only once; each can be used instead of a TOTP code a single time.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Enrollment started',
+    schema: {
+      example: {
+        secret: 'JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP',
+        otpauthUrl:
+          'otpauth://totp/PostHub%3Ajohn_doe123?secret=JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP&issuer=PostHub&algorithm=SHA1&digits=6&period=30',
+        recoveryCodes: ['3f9a1-c07d2', '8b2e4-51af0'],
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing access token',
+    schema: {
+      example: {
+        statusCode: 401,
+        message: 'Access token not found',
+        error: 'Unauthorized',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Conflict - Two-factor authentication already enabled',
+    schema: {
+      example: {
+        statusCode: 409,
+        message: 'Two-factor authentication is already enabled',
+        error: 'Conflict',
+      },
+    },
+  })
+  async enrollTwoFactor(@CurrentUser() userId: number) {
+    return this.authService.enrollTwoFactor(userId);
+  }
+
+  @Post('2fa/confirm')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Confirm two-factor authentication enrollment',
+    description:
+      'Turn on two-factor authentication by proving the authenticator app produces valid codes.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Two-factor authentication enabled',
+    schema: {
+      example: {
+        success: true,
+        message: 'Two-factor authentication enabled successfully',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad Request - Invalid code',
+    schema: {
+      example: {
+        statusCode: 400,
+        message: 'Invalid two-factor code',
+        error: 'Bad Request',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing access token',
+    schema: {
+      example: {
+        statusCode: 401,
+        message: 'Access token not found',
+        error: 'Unauthorized',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Conflict - Two-factor authentication already enabled',
+    schema: {
+      example: {
+        statusCode: 409,
+        message: 'Two-factor authentication is already enabled',
+        error: 'Conflict',
+      },
+    },
+  })
+  async confirmTwoFactor(
+    @CurrentUser() userId: number,
+    @Body() twoFactorCodeDto: TwoFactorCodeDto,
+  ) {
+    return this.authService.confirmTwoFactor(userId, twoFactorCodeDto);
+  }
+
+  @Post('2fa/disable')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Disable two-factor authentication',
+    description:
+      'Turn off two-factor authentication. Requires the current password and an authenticator or recovery code. Wrong answers count toward the same lockout as failed logins.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Two-factor authentication disabled',
+    schema: {
+      example: {
+        success: true,
+        message: 'Two-factor authentication disabled successfully',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad Request - Two-factor authentication is not enabled',
+    schema: {
+      example: {
+        statusCode: 400,
+        message: 'Two-factor authentication is not enabled',
+        error: 'Bad Request',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid password or code',
+    schema: {
+      example: {
+        statusCode: 401,
+        message: 'Invalid credentials',
+        error: 'Unauthorized',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 429,
+    description:
+      'Too Many Requests - Too many failed attempts for this account or IP address',
+    schema: {
+      example: {
+        statusCode: 429,
+        message:
+          'Too many failed login attempts. Please try again in 900 seconds.',
+      },
+    },
+  })
+  async disableTwoFactor(
+    @CurrentUser() userId: number,
+    @Body() disableTwoFactorDto: DisableTwoFactorDto,
+    @Req() req: Request,
+  ) {
+    return this.authService.disableTwoFactor(userId, disableTwoFactorDto, req);
+  }
+
+  @Post('2fa/verify')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Complete login with a two-factor code',
+    description:
+      'Exchange the challenge token from /auth/login and an authenticator or recovery code for an access token. Also sets the refresh token cookie. A challenge token works once, and only the one from the latest login is accepted. Wrong codes count toward the same lockout as failed logins, and the lockout also invalidates the challenge.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Login successful',
+    schema: {
+      example: {
+        accessToken: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or expired challenge token',
+    schema: {
+      example: {
+        statusCode: 401,
+        message: 'Invalid or expired challenge token',
+        error: 'Unauthorized',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid code',
+    schema: {
+      example: {
+        statusCode: 401,
+        message: 'Invalid two-factor code',
+        error: 'Unauthorized',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 429,
+    description:
+      'Too Many Requests - Too many failed attempts for this account or IP address',
+    schema: {
+      example: {
+        statusCode: 429,
+        message:
+          'Too many failed login attempts. Please try again in 900 seconds.',
+      },
+    },
+  })
+  async verifyTwoFactor(
+    @Body() verifyTwoFactorDto: VerifyTwoFactorDto,
+    @Req() req: Request,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    return this.authService.verifyTwoFactor(verifyTwoFactorDto, req, res);
+  }
+
+  @Get('oidc/providers')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'List configured identity providers',
+    description:
+      'Names of the OpenID Connect providers that can be used with /auth/oidc/{provider}/login.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Configured providers',
+    schema: {
+      example: {
+        providers: ['google'],
+      },
+    },
+  })
+  getOidcProviders() {
+    return this.authService.getOidcProviders();
+  }
+
+  @Get('oidc/:provider/login')
+  @Redirect()
+  @ApiOperation({
+    summary: 'Log in with an identity provider',
+    description:
+      'Redirects the browser to the provider authorization page (authorization code flow with PKCE). The provider sends the user back to /auth/oidc/{provider}/callback.',
+  })
+  @ApiParam({
+    name: 'provider',
+    description: 'Identity provider name from OIDC_PROVIDERS',
+    example: 'google',
+  })
+  @ApiResponse({
+    status: 302,
+    description: 'Redirect to the identity provider',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Not Found - Provider is not configured',
+    schema: {
+      example: {
+        statusCode: 404,
+        message: 'Unknown identity provider',
+        error: 'Not Found',
+      },
+    },
+  })
+  async oidcLogin(
+    @Param('provider') provider: string,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const url = await this.authService.startOidcLogin(provider, res);
+
+    return { url };
+  }
+
+  @Get('oidc/:provider/callback')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Identity provider callback',
+    description:
+      '⚠️ This endpoint is NOT for frontend applications. The identity provider redirects here after the user signs in. Known accounts are logged in (or get a two-factor challenge), a first-time login returns a signup token for /auth/oidc/complete, and a linking flow links the external account.',
+  })
+  @ApiParam({
+    name: 'provider',
+    description: 'Identity provider name from OIDC_PROVIDERS',
+    example: 'google',
+  })
+  @ApiQuery({ name: 'code', description: 'Authorization code' })
+  @ApiQuery({
+    name: 'state',
+    description: 'State from the authorization request',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Login successful',
+    schema: {
+      example: {
+        accessToken: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'First login with this external account',
+    schema: {
+      example: {
+        signupRequired: true,
+        signupToken: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+        email: 'john.doe@example.com',
+        name: 'John Doe',
+        suggestedUsername: 'john_doe',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad Request - Missing, expired or tampered login attempt',
+    schema: {
+      example: {
+        statusCode: 400,
+        message: 'Invalid or expired login attempt',
+        error: 'Bad Request',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Conflict - Email already used by an existing account',
+    schema: {
+      example: {
+        statusCode: 409,
+        message:
+          'An account with this email already exists. Log in and link the provider instead.',
+        error: 'Conflict',
+      },
+    },
+  })
+  async oidcCallback(
+    @Param('provider') provider: string,
+    @Query('code') code: string,
+    @Query('state') state: string,
+    @Req() req: Request,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    return this.authService.oidcCallback(provider, code, state, req, res);
+  }
+
+  @Post('oidc/complete')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Finish signing up with an identity provider',
+    description:
+      'Create an already activated account for a first-time external login with the chosen username. Also sets the refresh token cookie.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Account created and logged in',
+    schema: {
+      example: {
+        accessToken: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad Request - Invalid or expired signup token',
+    schema: {
+      example: {
+        statusCode: 400,
+        message: 'Invalid or expired signup token',
+        error: 'Bad Request',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Conflict - Username already exists',
+    schema: {
+      example: {
+        statusCode: 409,
+        message: 'Username already exists',
+        error: 'Conflict',
+      },
+    },
+  })
+  async completeOidcSignup(
+    @Body() completeOidcSignupDto: CompleteOidcSignupDto,
+    @Req() req: Request,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    return this.authService.completeOidcSignup(completeOidcSignupDto, req, res);
+  }
+
+  @Get('oidc/identities')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'List linked external accounts',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Linked accounts',
+    schema: {
+      example: {
+        identities: [
+          {
+            id: 1,
+            provider: 'google',
+            email: 'john.doe@example.com',
+            created_at: '2024-01-15T10:30:00.000Z',
+          },
+        ],
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing access token',
+    schema: {
+      example: {
+        statusCode: 401,
+        message: 'Access token not found',
+        error: 'Unauthorized',
+      },
+    },
+  })
+  async getLinkedIdentities(@CurrentUser() userId: number) {
+    return this.authService.getLinkedIdentities(userId);
+  }
+
+  @Post('oidc/:provider/link')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Link an external account',
+    description:
+      'Returns the provider authorization URL to open in the browser. After signing in there, the callback links the external account to the current user.',
+  })
+  @ApiParam({
+    name: 'provider',
+    description: 'Identity provider name from OIDC_PROVIDERS',
+    example: 'google',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Authorization URL created',
+    schema: {
+      example: {
+        authorizationUrl:
+          'https://accounts.google.com/o/oauth2/v2/auth?response_type=code&client_id=...',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing access token',
+    schema: {
+      example: {
+        statusCode: 401,
+        message: 'Access token not found',
+        error: 'Unauthorized',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Not Found - Provider is not configured',
+    schema: {
+      example: {
+        statusCode: 404,
+        message: 'Unknown identity provider',
+        error: 'Not Found',
+      },
+    },
+  })
+  async linkOidc(
+    @CurrentUser() userId: number,
+    @Param('provider') provider: string,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const authorizationUrl = await this.authService.startOidcLogin(
+      provider,
+      res,
+      userId,
+    );
+
+    return { authorizationUrl };
+  }
+
+  @Delete('oidc/:provider')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Unlink an external account',
+  })
+  @ApiParam({
+    name: 'provider',
+    description: 'Identity provider name from OIDC_PROVIDERS',
+    example: 'google',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Account unlinked',
+    schema: {
+      example: {
+        message: 'Account unlinked successfully',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing access token',
+    schema: {
+      example: {
+        statusCode: 401,
+        message: 'Access token not found',
+        error: 'Unauthorized',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Not Found - No account linked for this provider',
+    schema: {
+      example: {
+        statusCode: 404,
+        message: 'Linked account not found',
+        error: 'Not Found',
+      },
+    },
+  })
+  async unlinkOidc(
+    @CurrentUser() userId: number,
+    @Param('provider') provider: string,
+  ) {
+    return this.authService.unlinkOidc(userId, provider);
   }
 }
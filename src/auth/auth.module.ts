@@ -4,10 +4,32 @@ import { AuthController } from './auth.controller';
 import { UsersModule } from '../users/users.module';
 import { JwtModule } from '../jwt/jwt.module';
 import { EmailModule } from '../email/email.module';
+import { SessionsModule } from '../sessions/sessions.module';
+import { ApiTokensModule } from '../api-tokens/api-tokens.module';
+import { OidcModule } from '../oidc/oidc.module';
+import { PasswordPolicyModule } from '../password-policy/password-policy.module';
+import { CookiesModule } from '../cookies/cookies.module';
+import { SecurityLogModule } from '../security-log/security-log.module';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { LoginAttempt } from './entities/login-attempt.entity';
+import { LoginAttemptsService } from './login-attempts.service';
+import { LinkPagesService } from './link-pages.service';
 
 @Module({
-  imports: [UsersModule, JwtModule, EmailModule],
+  imports: [
+    TypeOrmModule.forFeature([LoginAttempt]),
+    UsersModule,
+    JwtModule,
+    EmailModule,
+    SessionsModule,
+    ApiTokensModule,
+    OidcModule,
+    PasswordPolicyModule,
+    CookiesModule,
+    SecurityLogModule,
+  ],
   controllers: [AuthController],
-  providers: [AuthService],
+  providers: [AuthService, LoginAttemptsService, LinkPagesService],
+  exports: [LoginAttemptsService],
 })
 export class AuthModule {}
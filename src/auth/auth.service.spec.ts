@@ -0,0 +1,372 @@
+import { NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService as NestJwtService } from '@nestjs/jwt';
+import { Test } from '@nestjs/testing';
+import bcrypt from 'bcrypt';
+import type { Request, Response } from 'express';
+import { DataSource, Repository } from 'typeorm';
+import { AuthService } from './auth.service';
+import { LoginAttemptsService } from './login-attempts.service';
+import { UsersService } from '../users/users.service';
+import { User } from '../users/entities/user.entity';
+import { BlocksService } from '../users/blocks.service';
+import { ProfileImagesService } from '../users/profile-images.service';
+import { JwtService } from '../jwt/jwt.service';
+import { JwtKeysService } from '../jwt/jwt-keys.service';
+import { EmailService } from '../email/email.service';
+import { SessionsService } from '../sessions/sessions.service';
+import { OidcService } from '../oidc/oidc.service';
+import { ExternalIdentity } from '../oidc/entities/external-identity.entity';
+import { PasswordPolicyService } from '../password-policy/password-policy.service';
+import { CookiesService } from '../cookies/cookies.service';
+import { SecurityLogService } from '../security-log/security-log.service';
+import { ApiTokensService } from '../api-tokens/api-tokens.service';
+import { Session } from '../sessions/entities/session.entity';
+import { createTestDataSource, repositoryProviders } from '../../test/database';
+import { MockOidcIssuer } from '../../test/mock-oidc-issuer';
+
+describe('AuthService', () => {
+  const issuer = new MockOidcIssuer();
+  let dataSource: DataSource;
+  let authService: AuthService;
+  let userRepo: Repository<User>;
+  let identityRepo: Repository<ExternalIdentity>;
+  let sessionRepo: Repository<Session>;
+  let emailService: {
+    sendMagicLinkEmail: jest.Mock;
+    sendPasswordResetEmail: jest.Mock;
+    sendSecurityAlertEmail: jest.Mock;
+  };
+
+  // Cookies set on responses, sent back with later requests like a browser would
+  let cookies: Record<string, string>;
+
+  const request = () =>
+    ({ headers: {}, ip: '127.0.0.1', cookies: { ...cookies } }) as Request;
+
+  const response = () =>
+    ({
+      cookie: (name: string, value: string) => (cookies[name] = value),
+      clearCookie: (name: string) => delete cookies[name],
+    }) as unknown as Response;
+
+  const payloadOf = (accessToken: string) =>
+    JSON.parse(Buffer.from(accessToken.split('.')[1], 'base64url').toString());
+
+  const userIdOf = (accessToken: string) => payloadOf(accessToken).userId;
+
+  const createUser = (username: string) =>
+    userRepo.save(
+      userRepo.create({
+        name: username,
+        username,
+        email: `${username}@example.com`,
+        hashed_password: 'not-a-real-hash',
+        is_active: true,
+      }),
+    );
+
+  // Goes through the provider like a browser: start, sign in, callback
+  const signInWithProvider = async (
+    claims: Parameters<MockOidcIssuer['authorize']>[1],
+    linkUserId?: number,
+  ) => {
+    const authorizationUrl = await authService.startOidcLogin(
+      'mock',
+      response(),
+      linkUserId,
+    );
+    const { code, state } = issuer.authorize(authorizationUrl, claims);
+
+    return authService.oidcCallback('mock', code, state, request(), response());
+  };
+
+  beforeAll(() => issuer.start());
+  afterAll(() => issuer.stop());
+
+  beforeEach(async () => {
+    dataSource = await createTestDataSource();
+    userRepo = dataSource.getRepository(User);
+    identityRepo = dataSource.getRepository(ExternalIdentity);
+    sessionRepo = dataSource.getRepository(Session);
+    emailService = {
+      sendMagicLinkEmail: jest.fn(),
+      sendPasswordResetEmail: jest.fn(),
+      sendSecurityAlertEmail: jest.fn().mockResolvedValue(undefined),
+    };
+    cookies = {};
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        ...repositoryProviders(dataSource),
+        AuthService,
+        UsersService,
+        BlocksService,
+        JwtService,
+        JwtKeysService,
+        SessionsService,
+        LoginAttemptsService,
+        OidcService,
+        PasswordPolicyService,
+        CookiesService,
+        SecurityLogService,
+        ApiTokensService,
+        { provide: NestJwtService, useValue: new NestJwtService() },
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({
+            THE_URL: 'http://localhost:3000',
+            JWT_ACCESS_SECRET: 'access-secret',
+            JWT_REFRESH_SECRET: 'refresh-secret',
+            JWT_ACCESS_EXPIRATION: '15m',
+            JWT_REFRESH_EXPIRATION: '7d',
+            JWT_OIDC_SECRET: 'oidc-secret',
+            JWT_MAGIC_LINK_SECRET: 'magic-link-secret',
+            JWT_MAGIC_LINK_EXPIRATION: '15m',
+            JWT_ALERT_SECRET: 'alert-secret',
+            JWT_ALERT_EXPIRATION: '7d',
+            JWT_RESET_SECRET: 'reset-secret',
+            JWT_RESET_EXPIRATION: '15m',
+            OIDC_PROVIDERS: 'mock',
+            OIDC_MOCK_ISSUER: issuer.issuer,
+            OIDC_MOCK_CLIENT_ID: 'posthub',
+          }),
+        },
+        { provide: EmailService, useValue: emailService },
+        { provide: ProfileImagesService, useValue: {} },
+      ],
+    }).compile();
+
+    authService = moduleRef.get(AuthService);
+  });
+
+  afterEach(() => dataSource.destroy());
+
+  describe('OIDC login', () => {
+    const claims = {
+      sub: 'subject-1',
+      email: 'Jane@Example.com',
+      email_verified: true,
+      name: 'Jane Doe',
+      preferred_username: 'jane.doe',
+    };
+
+    it('creates an active account with the chosen username on first login', async () => {
+      const signup = await signInWithProvider(claims);
+
+      expect(signup).toEqual(
+        expect.objectContaining({
+          signupRequired: true,
+          email: 'jane@example.com',
+          suggestedUsername: 'jane_doe',
+        }),
+      );
+
+      const session = await authService.completeOidcSignup(
+        { signup_token: signup!['signupToken'], username: 'jane_chosen' },
+        request(),
+        response(),
+      );
+
+      expect(session).toEqual({ accessToken: expect.any(String) });
+
+      const user = await userRepo.findOneByOrFail({ username: 'jane_chosen' });
+      expect(user).toEqual(
+        expect.objectContaining({
+          email: 'jane@example.com',
+          name: 'Jane Doe',
+          is_active: true,
+        }),
+      );
+
+      // The next login with the same external account goes straight in
+      await expect(signInWithProvider(claims)).resolves.toEqual({
+        accessToken: expect.any(String),
+      });
+      await expect(identityRepo.count()).resolves.toBe(1);
+    });
+
+    it('links and unlinks an external account', async () => {
+      const user = await createUser('linker');
+
+      await expect(signInWithProvider(claims, user.id)).resolves.toEqual({
+        message: 'Account linked successfully',
+      });
+      await expect(authService.getLinkedIdentities(user.id)).resolves.toEqual({
+        identities: [
+          expect.objectContaining({
+            provider: 'mock',
+            email: 'jane@example.com',
+          }),
+        ],
+      });
+
+      // A linked account logs in to its user
+      const login = await signInWithProvider(claims);
+      expect(userIdOf(login!['accessToken'])).toBe(user.id);
+
+      await expect(authService.unlinkOidc(user.id, 'mock')).resolves.toEqual({
+        message: 'Account unlinked successfully',
+      });
+      await expect(identityRepo.count()).resolves.toBe(0);
+      await expect(authService.unlinkOidc(user.id, 'mock')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+
+    it.each([
+      ['deactivated', { deactivated_at: new Date() }],
+      ['deleted', null],
+    ])(
+      'does not link to an account %s since the link started',
+      async (_state, changes) => {
+        const user = await createUser('leaver');
+        const authorizationUrl = await authService.startOidcLogin(
+          'mock',
+          response(),
+          user.id,
+        );
+
+        if (changes) {
+          await userRepo.update({ id: user.id }, changes);
+        } else {
+          await userRepo.delete({ id: user.id });
+        }
+
+        const { code, state } = issuer.authorize(authorizationUrl, claims);
+
+        await expect(
+          authService.oidcCallback('mock', code, state, request(), response()),
+        ).rejects.toThrow(UnauthorizedException);
+        await expect(identityRepo.count()).resolves.toBe(0);
+      },
+    );
+  });
+
+  describe('magic link login', () => {
+    const generic = {
+      message:
+        'If an account with that email exists, a login link has been sent',
+    };
+
+    // The token from the most recent login email
+    const emailedToken = (): string =>
+      emailService.sendMagicLinkEmail.mock.lastCall[2];
+
+    it('lets a link be used only once', async () => {
+      await createUser('magic');
+      await authService.requestMagicLink({ email: 'magic@example.com' });
+      const token = emailedToken();
+
+      await expect(
+        authService.consumeMagicLink({ token }, request(), response()),
+      ).resolves.toEqual({ accessToken: expect.any(String) });
+      await expect(
+        authService.consumeMagicLink({ token }, request(), response()),
+      ).rejects.toThrow(UnauthorizedException);
+      await expect(sessionRepo.count()).resolves.toBe(1);
+    });
+
+    it('lets only one of two concurrent uses of a link in', async () => {
+      await createUser('racer');
+      await authService.requestMagicLink({ email: 'racer@example.com' });
+      const token = emailedToken();
+
+      const results = await Promise.allSettled([
+        authService.consumeMagicLink({ token }, request(), response()),
+        authService.consumeMagicLink({ token }, request(), response()),
+      ]);
+
+      expect(results.filter((r) => r.status === 'fulfilled')).toHaveLength(1);
+      expect(results.filter((r) => r.status === 'rejected')).toEqual([
+        { status: 'rejected', reason: expect.any(UnauthorizedException) },
+      ]);
+      await expect(sessionRepo.count()).resolves.toBe(1);
+    });
+
+    it('does not send another link within the cooldown', async () => {
+      const user = await createUser('impatient');
+
+      await expect(
+        authService.requestMagicLink({ email: 'impatient@example.com' }),
+      ).resolves.toEqual(generic);
+      await expect(
+        authService.requestMagicLink({ email: 'impatient@example.com' }),
+      ).resolves.toEqual(generic);
+      expect(emailService.sendMagicLinkEmail).toHaveBeenCalledTimes(1);
+
+      // Once the cooldown has passed a new link is sent
+      await userRepo.update(
+        { id: user.id },
+        { magic_link_sent_at: new Date(Date.now() - 61_000) },
+      );
+      await authService.requestMagicLink({ email: 'impatient@example.com' });
+      expect(emailService.sendMagicLinkEmail).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('forgot password', () => {
+    it('does not send another reset link within the cooldown', async () => {
+      const user = await createUser('forgetful');
+      const generic = {
+        message:
+          'If an account with that email exists, a password reset link has been sent',
+      };
+
+      await expect(
+        authService.forgotPassword({ email: 'forgetful@example.com' }),
+      ).resolves.toEqual(generic);
+      await expect(
+        authService.forgotPassword({ email: 'forgetful@example.com' }),
+      ).resolves.toEqual(generic);
+      expect(emailService.sendPasswordResetEmail).toHaveBeenCalledTimes(1);
+
+      // Once the cooldown has passed a new link is sent
+      await userRepo.update(
+        { id: user.id },
+        { password_reset_sent_at: new Date(Date.now() - 61_000) },
+      );
+      await authService.forgotPassword({ email: 'forgetful@example.com' });
+      expect(emailService.sendPasswordResetEmail).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('password change', () => {
+    it('keeps the current device signed in with the new token version', async () => {
+      const user = await createUser('changer');
+      await userRepo.update(
+        { id: user.id },
+        {
+          hashed_password: await bcrypt.hash('Old-password-123!', 10),
+          token_version: 4,
+        },
+      );
+
+      await authService.requestMagicLink({ email: 'changer@example.com' });
+      const login = await authService.consumeMagicLink(
+        { token: emailService.sendMagicLinkEmail.mock.lastCall[2] },
+        request(),
+        response(),
+      );
+      const { sessionId } = payloadOf(login!['accessToken']);
+
+      const result = await authService.updatePassword(
+        user.id,
+        sessionId,
+        {
+          current_password: 'Old-password-123!',
+          new_password: 'Correct-Horse-Battery-9',
+          confirm_new_password: 'Correct-Horse-Battery-9',
+        },
+        request(),
+        response(),
+      );
+
+      const { token_version } = await userRepo.findOneByOrFail({
+        id: user.id,
+      });
+      expect(token_version).toBe(5);
+      expect(payloadOf(result!.accessToken).tokenVersion).toBe(token_version);
+    });
+  });
+});
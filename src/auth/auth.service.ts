@@ -7,7 +7,7 @@ import {
 } from '@nestjs/common';
 import { CreateUserDto } from '../users/dto/create-user.dto';
 import { UsersService } from '../users/users.service';
-import { JwtService } from '../jwt/jwt.service';
+import { JwtService, SecurityAlertChange } from '../jwt/jwt.service';
 import { errorHandler } from '../utils/error_handler';
 import { LoginDto } from './dto/login.dto';
 import bcrypt from 'bcrypt';
@@ -16,6 +16,33 @@ import { ConfigService } from '@nestjs/config';
 import { UpdatePasswordDto } from './dto/update-password.dto';
 import { UpdateEmailDto } from './dto/update-email.dto';
 import { EmailService } from '../email/email.service';
+import { ForgotPasswordDto } from './dto/forgot-password.dto';
+import { ResetPasswordDto } from './dto/reset-password.dto';
+import { ResendActivationDto } from './dto/resend-activation.dto';
+import { createHash, randomBytes } from 'crypto';
+import { SessionsService } from '../sessions/sessions.service';
+import { LoginAttemptsService } from './login-attempts.service';
+import { User } from '../users/entities/user.entity';
+import { buildOtpauthUri, generateTotpSecret, verifyTotp } from '../utils/totp';
+import { describeDuration } from '../utils/duration';
+import { TwoFactorCodeDto } from './dto/two-factor-code.dto';
+import { DisableTwoFactorDto } from './dto/disable-two-factor.dto';
+import { VerifyTwoFactorDto } from './dto/verify-two-factor.dto';
+import { OidcClaims, OidcService } from '../oidc/oidc.service';
+import { CompleteOidcSignupDto } from './dto/complete-oidc-signup.dto';
+import { MagicLinkDto } from './dto/magic-link.dto';
+import { ConsumeMagicLinkDto } from './dto/consume-magic-link.dto';
+import { ReauthDto } from './dto/reauth.dto';
+import { PasswordPolicyService } from '../password-policy/password-policy.service';
+import { CookiesService } from '../cookies/cookies.service';
+import { ApiTokensService } from '../api-tokens/api-tokens.service';
+import { SecurityLogService } from '../security-log/security-log.service';
+import { SecurityEventType } from '../security-log/entities/security-event.entity';
+
+const RECOVERY_CODE_COUNT = 10;
+
+// Recorded with login events in the security log
+type LoginMethod = 'password' | 'magic_link' | 'oidc' | 'two_factor';
 
 @Injectable()
 export class AuthService {
@@ -24,25 +51,57 @@ export class AuthService {
     private jwtService: JwtService,
     private configService: ConfigService,
     private emailService: EmailService,
+    private sessionsService: SessionsService,
+    private loginAttemptsService: LoginAttemptsService,
+    private oidcService: OidcService,
+    private passwordPolicyService: PasswordPolicyService,
+    private cookiesService: CookiesService,
+    private securityLogService: SecurityLogService,
+    private apiTokensService: ApiTokensService,
   ) {}
 
+  getPasswordPolicy() {
+    return this.passwordPolicyService.getRules();
+  }
+
   async signUp(createUserDto: CreateUserDto) {
     await this.userService.create(createUserDto);
 
     return { message: 'Check your email to activate...' };
   }
 
-  async logIn(logInDto: LoginDto, res: Response) {
+  async resendActivation({ email }: ResendActivationDto) {
+    await this.userService.resendActivation(email);
+
+    return {
+      message:
+        'If a pending account with that email exists, a new activation email has been sent',
+    };
+  }
+
+  async logIn(logInDto: LoginDto, req: Request, res: Response) {
     try {
       const { identifier, password } = logInDto;
 
       const user = await this.userService.getUserForAuth(identifier);
 
+      await this.loginAttemptsService.assertCanAttempt(
+        user?.id ?? identifier,
+        req.ip,
+      );
+
       if (!user) {
+        await this.loginAttemptsService.recordFailure(identifier, req.ip);
         throw new UnauthorizedException('Invalid credentials');
       }
 
       if (!user.is_active) {
+        await this.securityLogService.record(
+          user.id,
+          SecurityEventType.LOGIN_FAILED,
+          req,
+          { method: 'password', reason: 'not_activated' },
+        );
         throw new UnauthorizedException(
           'Account not activated. Please check your email.',
         );
@@ -54,33 +113,122 @@ export class AuthService {
       );
 
       if (!isPasswordValid) {
+        await this.securityLogService.record(
+          user.id,
+          SecurityEventType.LOGIN_FAILED,
+          req,
+          { method: 'password', reason: 'invalid_password' },
+        );
+
+        const locked = await this.loginAttemptsService.recordFailure(
+          user.id,
+          req.ip,
+        );
+
+        if (locked) {
+          // Delivery problems are logged by EmailService and must not change the response
+          this.emailService
+            .sendLoginLockoutEmail(
+              user.email,
+              user.username,
+              this.loginAttemptsService.getLockoutMinutes(),
+            )
+            .catch(() => {});
+        }
+
         throw new UnauthorizedException('Invalid credentials');
       }
 
-      const { accessToken, refreshToken } = this.jwtService.generateTokens({
-        userId: user.id,
-      });
+      await this.loginAttemptsService.clearAccount(user.id);
+
+      return await this.completeLogin(user, req, res, 'password');
+    } catch (error) {
+      errorHandler(error, 'AuthService.logIn');
+    }
+  }
 
-      await this.userService.updateRefreshToken(user.id, refreshToken);
+  async requestMagicLink({ email }: MagicLinkDto) {
+    try {
+      const user = await this.userService.getUserForAuth(email);
 
-      res.cookie('refreshToken', refreshToken, {
-        httpOnly: true,
-        secure: this.configService.get<string>('NODE_ENV') === 'production',
-        sameSite: 'lax',
-        maxAge: 7 * 24 * 60 * 60 * 1000,
-      });
+      const linkId = randomBytes(16).toString('hex');
+
+      // Within the cooldown the email is silently not sent again
+      if (
+        user &&
+        user.is_active &&
+        user.email === email.toLowerCase() &&
+        (await this.userService.setMagicLinkId(user.id, linkId))
+      ) {
+        const magicLinkToken = this.jwtService.generateMagicLinkToken({
+          userId: user.id,
+          linkId,
+        });
 
-      return { accessToken };
+        await this.emailService.sendMagicLinkEmail(
+          user.email,
+          user.username,
+          magicLinkToken,
+          describeDuration(this.configService.get('JWT_MAGIC_LINK_EXPIRATION')),
+        );
+      }
+
+      // Same answer whether or not the account exists
+      return {
+        message:
+          'If an account with that email exists, a login link has been sent',
+      };
     } catch (error) {
-      errorHandler(error, 'AuthService.logIn');
+      errorHandler(error, 'AuthService.requestMagicLink');
     }
   }
 
-  async logOut(userId: number, res: Response) {
+  async consumeMagicLink(
+    { token }: ConsumeMagicLinkDto,
+    req: Request,
+    res: Response,
+  ) {
     try {
-      await this.userService.updateRefreshToken(userId, null);
+      const { userId, linkId } =
+        await this.jwtService.verifyMagicLinkToken(token);
+
+      const consumed = await this.userService.consumeMagicLinkId(
+        userId,
+        linkId,
+      );
 
-      res.clearCookie('refreshToken');
+      if (!consumed) {
+        throw new UnauthorizedException('Invalid or expired login link');
+      }
+
+      const user = await this.userService.getOneForAuthById(userId);
+
+      if (!user || !user.is_active) {
+        throw new UnauthorizedException('Invalid or expired login link');
+      }
+
+      return await this.completeLogin(user, req, res, 'magic_link');
+    } catch (error) {
+      if (
+        error.name === 'JsonWebTokenError' ||
+        error.name === 'TokenExpiredError'
+      ) {
+        throw new UnauthorizedException('Invalid or expired login link');
+      }
+      errorHandler(error, 'AuthService.consumeMagicLink');
+    }
+  }
+
+  async logOut(userId: number, sessionId: number, req: Request, res: Response) {
+    try {
+      await this.sessionsService.remove(sessionId, userId);
+      await this.securityLogService.record(
+        userId,
+        SecurityEventType.LOGGED_OUT,
+        req,
+      );
+
+      this.cookiesService.clearRefreshToken(res);
 
       return { message: 'Logged out successfully' };
     } catch (error) {
@@ -90,39 +238,74 @@ export class AuthService {
 
   async refresh(res: Response, req: Request) {
     try {
-      const refreshToken = req.cookies?.refreshToken;
+      const refreshToken = this.cookiesService.getRefreshToken(req);
 
       if (!refreshToken) {
         throw new UnauthorizedException('Refresh token not found');
       }
 
-      const { userId } = await this.jwtService.verifyRefreshToken(refreshToken);
+      const { userId, sessionId, tokenVersion } =
+        await this.jwtService.verifyRefreshToken(refreshToken);
 
-      const user = await this.userService.getOneForAuthById(userId);
+      const status = await this.sessionsService.checkRefreshToken(
+        sessionId,
+        userId,
+        refreshToken,
+      );
+
+      if (status === 'reused') {
+        await this.sessionsService.revoke(sessionId, 'refresh_token_reuse');
+        this.cookiesService.clearRefreshToken(res);
+
+        await this.securityLogService.record(
+          userId,
+          SecurityEventType.REFRESH_TOKEN_REUSED,
+          req,
+          { session_id: String(sessionId) },
+        );
+
+        const user = await this.userService.getOneForAuthById(userId);
 
-      if (!user || !user.hashed_refresh_token) {
+        if (user) {
+          this.sendSecurityAlert(user, 'refresh_token_reuse');
+        }
+
+        throw new UnauthorizedException(
+          'Refresh token reuse detected. Please log in again.',
+        );
+      }
+
+      if (status !== 'valid') {
         throw new UnauthorizedException('Invalid refresh token');
       }
 
-      const isTokenValid = await bcrypt.compare(
-        refreshToken,
-        user.hashed_refresh_token,
-      );
+      const user = await this.userService.getOneForAuthById(userId);
 
-      if (!isTokenValid) {
+      if (!user || user.token_version !== tokenVersion) {
         throw new UnauthorizedException('Invalid refresh token');
       }
 
-      const payload = this.jwtService.generateTokens({ userId });
-
-      res.cookie('refreshToken', payload.refreshToken, {
-        httpOnly: true,
-        secure: this.configService.get<string>('NODE_ENV') === 'production',
-        sameSite: 'lax',
-        maxAge: 7 * 24 * 60 * 60 * 1000,
+      // Role changes take effect on the next refresh
+      const payload = this.jwtService.generateTokens({
+        userId,
+        sessionId,
+        role: user.role,
+        tokenVersion: user.token_version,
       });
 
-      await this.userService.updateRefreshToken(userId, payload.refreshToken);
+      await this.sessionsService.setRefreshToken(
+        sessionId,
+        payload.refreshToken,
+        { userAgent: req.headers['user-agent'], ip: req.ip },
+      );
+
+      this.cookiesService.setRefreshToken(res, payload.refreshToken);
+
+      await this.securityLogService.record(
+        userId,
+        SecurityEventType.TOKEN_REFRESHED,
+        req,
+      );
 
       return { accessToken: payload.accessToken };
     } catch (error) {
@@ -136,7 +319,13 @@ export class AuthService {
     }
   }
 
-  async updatePassword(userId: number, updatePassword: UpdatePasswordDto) {
+  async updatePassword(
+    userId: number,
+    sessionId: number,
+    updatePassword: UpdatePasswordDto,
+    req: Request,
+    res: Response,
+  ) {
     try {
       if (updatePassword.new_password !== updatePassword.confirm_new_password) {
         throw new BadRequestException('Passwords do not match');
@@ -157,18 +346,53 @@ export class AuthService {
         throw new UnauthorizedException('Invalid credentials');
       }
 
-      await this.userService.updatePassword(
+      this.passwordPolicyService.assertValid(updatePassword.new_password, user);
+
+      const tokenVersion = await this.userService.updatePassword(
         user.id,
         updatePassword.new_password,
       );
 
-      return { success: true, message: 'Password updated successfully' };
+      this.sendSecurityAlert(user, 'password');
+      await this.securityLogService.record(
+        user.id,
+        SecurityEventType.PASSWORD_CHANGED,
+        req,
+      );
+
+      // Every other device is logged out, this one continues with fresh tokens
+      await this.sessionsService.removeAllForUser(user.id, sessionId);
+      await this.apiTokensService.removeAllForUser(user.id);
+
+      const { accessToken, refreshToken } = this.jwtService.generateTokens({
+        userId: user.id,
+        sessionId,
+        role: user.role,
+        tokenVersion,
+      });
+
+      await this.sessionsService.setRefreshToken(sessionId, refreshToken, {
+        userAgent: req.headers['user-agent'],
+        ip: req.ip,
+      });
+
+      this.cookiesService.setRefreshToken(res, refreshToken);
+
+      return {
+        success: true,
+        message: 'Password updated successfully',
+        accessToken,
+      };
     } catch (error) {
       errorHandler(error, 'AuthService.updatePassword');
     }
   }
 
-  async updateEmail(userId: number, { new_email }: UpdateEmailDto) {
+  async updateEmail(
+    userId: number,
+    { new_email }: UpdateEmailDto,
+    req: Request,
+  ) {
     try {
       const { emailAvailable } = await this.userService.isAvailable(
         undefined,
@@ -196,19 +420,26 @@ export class AuthService {
         updateToken,
       );
 
+      await this.securityLogService.record(
+        userId,
+        SecurityEventType.EMAIL_CHANGE_REQUESTED,
+        req,
+        { new_email },
+      );
+
       return { message: 'Please check your new email to update' };
     } catch (error) {
       errorHandler(error, 'AuthService.updateEmail');
     }
   }
 
-  async activate(token: string) {
+  async activate(token: string, req: Request) {
     try {
       const { userId } = await this.jwtService.verifyActivationToken(token);
 
       const user = await this.userService.getOne({ id: userId });
       if (!user) {
-        return 'User not found';
+        throw new NotFoundException('User not found');
       }
 
       if (user.is_active) {
@@ -216,6 +447,11 @@ export class AuthService {
       }
 
       await this.userService.activateUser(userId);
+      await this.securityLogService.record(
+        userId,
+        SecurityEventType.ACCOUNT_ACTIVATED,
+        req,
+      );
 
       return 'Account activated successfully';
     } catch (error) {
@@ -230,22 +466,805 @@ export class AuthService {
     }
   }
 
-  async verifyNewEmail(token: string) {
+  async verifyNewEmail(token: string, req: Request) {
     try {
       const { userId, new_email } =
         await this.jwtService.verifyUpdateToken(token);
 
+      const user = await this.userService.getOneForAuthById(userId);
+
+      if (!user) {
+        throw new NotFoundException('User not found');
+      }
+
       await this.userService.updateEmail(userId, new_email);
 
+      // The old address gets a way to undo the change
+      this.sendSecurityAlert(user, 'email');
+      await this.securityLogService.record(
+        userId,
+        SecurityEventType.EMAIL_CHANGED,
+        req,
+        { new_email },
+      );
+
       return 'Email updated successfully';
     } catch (error) {
       if (
         error.name === 'JsonWebTokenError' ||
         error.name === 'TokenExpiredError'
       ) {
-        throw new UnauthorizedException('Invalid or expired refresh token');
+        throw new UnauthorizedException('Invalid or expired email update link');
       }
       errorHandler(error, 'AuthService.verifyNewEmail');
     }
   }
+
+  async forgotPassword({ email }: ForgotPasswordDto) {
+    try {
+      const user = await this.userService.getUserForAuth(email);
+
+      // Within the cooldown the email is silently not sent again
+      if (
+        user &&
+        user.is_active &&
+        (await this.userService.markPasswordResetSent(user.id))
+      ) {
+        const resetToken = this.jwtService.generateResetToken({
+          userId: user.id,
+          fingerprint: this.passwordFingerprint(user.hashed_password),
+        });
+
+        await this.emailService.sendPasswordResetEmail(
+          user.email,
+          user.username,
+          resetToken,
+          describeDuration(this.configService.get('JWT_RESET_EXPIRATION')),
+        );
+      }
+
+      // Same answer whether or not the account exists
+      return {
+        message:
+          'If an account with that email exists, a password reset link has been sent',
+      };
+    } catch (error) {
+      errorHandler(error, 'AuthService.forgotPassword');
+    }
+  }
+
+  async resetPassword(resetPasswordDto: ResetPasswordDto, req: Request) {
+    try {
+      if (
+        resetPasswordDto.new_password !== resetPasswordDto.confirm_new_password
+      ) {
+        throw new BadRequestException('Passwords do not match');
+      }
+
+      const { userId, fingerprint } = await this.jwtService.verifyResetToken(
+        resetPasswordDto.token,
+      );
+
+      const user = await this.userService.getOneForAuthById(userId);
+
+      // The fingerprint changes together with the password, so a used link stops working
+      if (
+        !user ||
+        !user.is_active ||
+        this.passwordFingerprint(user.hashed_password) !== fingerprint
+      ) {
+        throw new BadRequestException('Invalid or expired reset link');
+      }
+
+      this.passwordPolicyService.assertValid(
+        resetPasswordDto.new_password,
+        user,
+      );
+
+      await this.userService.updatePassword(
+        user.id,
+        resetPasswordDto.new_password,
+      );
+      await this.sessionsService.removeAllForUser(user.id);
+      await this.apiTokensService.removeAllForUser(user.id);
+      await this.securityLogService.record(
+        user.id,
+        SecurityEventType.PASSWORD_RESET,
+        req,
+      );
+
+      return {
+        success: true,
+        message: 'Password reset successfully. Please log in again.',
+      };
+    } catch (error) {
+      if (
+        error.name === 'JsonWebTokenError' ||
+        error.name === 'TokenExpiredError'
+      ) {
+        throw new BadRequestException('Invalid or expired reset link');
+      }
+      errorHandler(error, 'AuthService.resetPassword');
+    }
+  }
+
+  /**
+   * "This wasn't me" link from a security alert. Restores the alerted email
+   * address when possible, logs out every device and replaces the password,
+   * then mails a reset link to the alerted address.
+   */
+  async secureAccount(token: string, req: Request) {
+    try {
+      const { userId, change, email, iat } =
+        await this.jwtService.verifySecurityAlertToken(token);
+
+      const user = await this.userService.getOneForAuthById(userId);
+
+      // Links sent before the account was last secured are used up
+      if (
+        !user ||
+        (user.secured_at && user.secured_at.getTime() >= iat * 1000)
+      ) {
+        throw new BadRequestException('Invalid or expired security link');
+      }
+
+      let restoreEmail: string | undefined;
+
+      if (change === 'email' && user.email !== email) {
+        const { emailAvailable } = await this.userService.isAvailable(
+          undefined,
+          email,
+          user.id,
+        );
+
+        if (emailAvailable) {
+          restoreEmail = email;
+        }
+      }
+
+      const hashedPassword = await this.userService.secureAccount(
+        user.id,
+        restoreEmail,
+      );
+      await this.sessionsService.removeAllForUser(user.id);
+      await this.apiTokensService.removeAllForUser(user.id);
+      await this.securityLogService.record(
+        user.id,
+        SecurityEventType.ACCOUNT_SECURED,
+        req,
+        { change },
+      );
+
+      const resetToken = this.jwtService.generateResetToken({
+        userId: user.id,
+        fingerprint: this.passwordFingerprint(hashedPassword),
+      });
+
+      await this.emailService.sendPasswordResetEmail(
+        email,
+        user.username,
+        resetToken,
+        describeDuration(this.configService.get('JWT_RESET_EXPIRATION')),
+      );
+
+      return 'Your account has been secured. Check your email to choose a new password.';
+    } catch (error) {
+      if (
+        error.name === 'JsonWebTokenError' ||
+        error.name === 'TokenExpiredError'
+      ) {
+        throw new BadRequestException('Invalid or expired security link');
+      }
+      errorHandler(error, 'AuthService.secureAccount');
+    }
+  }
+
+  async getSecurityLog(userId: number, page: number) {
+    return this.securityLogService.findAllForUser(userId, page);
+  }
+
+  async getSessions(userId: number, currentSessionId: number) {
+    try {
+      const sessions = await this.sessionsService.findAllForUser(userId);
+
+      return {
+        sessions: sessions.map((session) => ({
+          ...session,
+          current: session.id === currentSessionId,
+        })),
+      };
+    } catch (error) {
+      errorHandler(error, 'AuthService.getSessions');
+    }
+  }
+
+  async revokeSession(userId: number, sessionId: number) {
+    try {
+      const removed = await this.sessionsService.remove(sessionId, userId);
+
+      if (!removed) {
+        throw new NotFoundException('Session not found');
+      }
+
+      return { message: 'Session revoked successfully' };
+    } catch (error) {
+      errorHandler(error, 'AuthService.revokeSession');
+    }
+  }
+
+  /**
+   * Step-up check for sensitive routes. Returns an access token for the same
+   * session that carries the re-authentication time, which routes marked
+   * with @RequiresReauth() accept for REAUTH_MAX_AGE seconds.
+   */
+  async reauthenticate(
+    userId: number,
+    sessionId: number,
+    { password, code }: ReauthDto,
+    req: Request,
+  ) {
+    try {
+      if (!password === !code) {
+        throw new BadRequestException(
+          'Provide either your password or a two-factor code',
+        );
+      }
+
+      const user = await this.userService.getOneForAuthById(userId);
+
+      if (!user) {
+        throw new NotFoundException('User not found');
+      }
+
+      await this.loginAttemptsService.assertCanAttempt(user.id, req.ip);
+
+      const isValid = password
+        ? await bcrypt.compare(password, user.hashed_password)
+        : user.two_factor_enabled &&
+          (await this.checkTwoFactorCode(user, code!));
+
+      if (!isValid) {
+        await this.loginAttemptsService.recordFailure(user.id, req.ip);
+        throw new UnauthorizedException('Invalid credentials');
+      }
+
+      const accessToken = this.jwtService.generateAccessToken({
+        userId: user.id,
+        sessionId,
+        role: user.role,
+        tokenVersion: user.token_version,
+        reauthenticatedAt: Math.floor(Date.now() / 1000),
+      });
+
+      return {
+        accessToken,
+        reauthExpiresIn: Number(this.configService.get('REAUTH_MAX_AGE', 300)),
+      };
+    } catch (error) {
+      errorHandler(error, 'AuthService.reauthenticate');
+    }
+  }
+
+  async logOutOthers(userId: number, currentSessionId: number) {
+    try {
+      const revoked = await this.sessionsService.removeAllForUser(
+        userId,
+        currentSessionId,
+      );
+
+      return { message: 'Logged out from other devices', revoked };
+    } catch (error) {
+      errorHandler(error, 'AuthService.logOutOthers');
+    }
+  }
+
+  async enrollTwoFactor(userId: number) {
+    try {
+      const user = await this.userService.getOneForAuthById(userId);
+
+      if (!user) {
+        throw new NotFoundException('User not found');
+      }
+
+      if (user.two_factor_enabled) {
+        throw new ConflictException(
+          'Two-factor authentication is already enabled',
+        );
+      }
+
+      const secret = generateTotpSecret();
+      const recoveryCodes = Array.from({ length: RECOVERY_CODE_COUNT }, () =>
+        randomBytes(5)
+          .toString('hex')
+          .replace(/^(.{5})/, '$1-'),
+      );
+
+      await this.userService.setTwoFactorSecret(
+        userId,
+        secret,
+        recoveryCodes.map((code) => this.hashRecoveryCode(code)),
+      );
+
+      return {
+        secret,
+        otpauthUrl: buildOtpauthUri('PostHub', user.username, secret),
+        recoveryCodes,
+      };
+    } catch (error) {
+      errorHandler(error, 'AuthService.enrollTwoFactor');
+    }
+  }
+
+  async confirmTwoFactor(userId: number, { code }: TwoFactorCodeDto) {
+    try {
+      const user = await this.userService.getOneForAuthById(userId);
+
+      if (!user) {
+        throw new NotFoundException('User not found');
+      }
+
+      if (user.two_factor_enabled) {
+        throw new ConflictException(
+          'Two-factor authentication is already enabled',
+        );
+      }
+
+      if (!user.two_factor_secret) {
+        throw new BadRequestException(
+          'Start two-factor enrollment before confirming it',
+        );
+      }
+
+      const step = verifyTotp(user.two_factor_secret, code);
+
+      if (step === null) {
+        throw new BadRequestException('Invalid two-factor code');
+      }
+
+      await this.userService.enableTwoFactor(userId, step);
+
+      return {
+        success: true,
+        message: 'Two-factor authentication enabled successfully',
+      };
+    } catch (error) {
+      errorHandler(error, 'AuthService.confirmTwoFactor');
+    }
+  }
+
+  async disableTwoFactor(
+    userId: number,
+    { password, code }: DisableTwoFactorDto,
+    req: Request,
+  ) {
+    try {
+      const user = await this.userService.getOneForAuthById(userId);
+
+      if (!user) {
+        throw new NotFoundException('User not found');
+      }
+
+      if (!user.two_factor_enabled) {
+        throw new BadRequestException(
+          'Two-factor authentication is not enabled',
+        );
+      }
+
+      await this.loginAttemptsService.assertCanAttempt(user.id, req.ip);
+
+      const isPasswordValid = await bcrypt.compare(
+        password,
+        user.hashed_password,
+      );
+
+      if (!isPasswordValid || !(await this.checkTwoFactorCode(user, code))) {
+        await this.loginAttemptsService.recordFailure(user.id, req.ip);
+        throw new UnauthorizedException('Invalid credentials');
+      }
+
+      await this.userService.disableTwoFactor(userId);
+
+      return {
+        success: true,
+        message: 'Two-factor authentication disabled successfully',
+      };
+    } catch (error) {
+      errorHandler(error, 'AuthService.disableTwoFactor');
+    }
+  }
+
+  async verifyTwoFactor(
+    { challenge_token, code }: VerifyTwoFactorDto,
+    req: Request,
+    res: Response,
+  ) {
+    try {
+      const { userId, challengeId } =
+        await this.jwtService.verifyTwoFactorToken(challenge_token);
+
+      const user = await this.userService.getOneForAuthById(userId);
+
+      if (
+        !user ||
+        !user.is_active ||
+        !user.two_factor_enabled ||
+        !(await this.userService.hasTwoFactorChallengeId(userId, challengeId))
+      ) {
+        throw new UnauthorizedException('Invalid or expired challenge token');
+      }
+
+      await this.loginAttemptsService.assertCanAttempt(user.id, req.ip);
+
+      if (!(await this.checkTwoFactorCode(user, code))) {
+        await this.securityLogService.record(
+          user.id,
+          SecurityEventType.LOGIN_FAILED,
+          req,
+          { method: 'two_factor', reason: 'invalid_two_factor_code' },
+        );
+
+        const locked = await this.loginAttemptsService.recordFailure(
+          user.id,
+          req.ip,
+        );
+
+        if (locked) {
+          // The challenge is burnt, so the password has to be entered again
+          await this.userService.setTwoFactorChallengeId(user.id, null);
+
+          this.emailService
+            .sendLoginLockoutEmail(
+              user.email,
+              user.username,
+              this.loginAttemptsService.getLockoutMinutes(),
+            )
+            .catch(() => {});
+        }
+
+        throw new UnauthorizedException('Invalid two-factor code');
+      }
+
+      if (
+        !(await this.userService.consumeTwoFactorChallengeId(
+          user.id,
+          challengeId,
+        ))
+      ) {
+        throw new UnauthorizedException('Invalid or expired challenge token');
+      }
+
+      await this.loginAttemptsService.clearAccount(user.id);
+
+      return await this.startSession(user, req, res, 'two_factor');
+    } catch (error) {
+      if (
+        error.name === 'JsonWebTokenError' ||
+        error.name === 'TokenExpiredError'
+      ) {
+        throw new UnauthorizedException('Invalid or expired challenge token');
+      }
+      errorHandler(error, 'AuthService.verifyTwoFactor');
+    }
+  }
+
+  getOidcProviders() {
+    return { providers: this.oidcService.getProviderNames() };
+  }
+
+  /**
+   * Starts an authorization code flow. The state, nonce and PKCE verifier
+   * travel in a short-lived cookie scoped to the callback path.
+   */
+  async startOidcLogin(provider: string, res: Response, linkUserId?: number) {
+    try {
+      const { authorizationUrl, transactionToken } =
+        await this.oidcService.createAuthorization(provider, linkUserId);
+
+      this.cookiesService.setOidcTransaction(res, transactionToken);
+
+      return authorizationUrl;
+    } catch (error) {
+      errorHandler(error, 'AuthService.startOidcLogin');
+    }
+  }
+
+  async oidcCallback(
+    provider: string,
+    code: string | undefined,
+    state: string | undefined,
+    req: Request,
+    res: Response,
+  ) {
+    try {
+      const transactionToken = this.cookiesService.getOidcTransaction(req);
+      this.cookiesService.clearOidcTransaction(res);
+
+      const result = await this.oidcService.handleCallback(
+        provider,
+        code,
+        state,
+        transactionToken,
+      );
+      const { claims } = result;
+
+      if (result.linkUserId) {
+        // The account may have been deactivated or deleted since the start
+        const linkUser = await this.userService.getOneForAuthById(
+          result.linkUserId,
+        );
+
+        if (!linkUser || !linkUser.is_active || linkUser.deactivated_at) {
+          throw new UnauthorizedException('Invalid credentials');
+        }
+
+        await this.oidcService.link(
+          linkUser.id,
+          result.provider,
+          claims.sub,
+          claims.email,
+        );
+
+        return { message: 'Account linked successfully' };
+      }
+
+      const userId = await this.oidcService.findUserId(
+        result.provider,
+        claims.sub,
+      );
+
+      if (userId) {
+        const user = await this.userService.getOneForAuthById(userId);
+
+        if (!user || !user.is_active) {
+          throw new UnauthorizedException('Invalid credentials');
+        }
+
+        return await this.completeLogin(user, req, res, 'oidc');
+      }
+
+      return await this.startOidcSignup(result.provider, claims);
+    } catch (error) {
+      errorHandler(error, 'AuthService.oidcCallback');
+    }
+  }
+
+  async completeOidcSignup(
+    { signup_token, username }: CompleteOidcSignupDto,
+    req: Request,
+    res: Response,
+  ) {
+    try {
+      const { provider, subject, email, name } =
+        await this.jwtService.verifyOidcSignupToken(signup_token);
+
+      if (await this.oidcService.findUserId(provider, subject)) {
+        throw new ConflictException(
+          'This external account is already linked to another user',
+        );
+      }
+
+      const user = await this.userService.createActivated({
+        name,
+        username,
+        email,
+      });
+
+      await this.oidcService.link(user.id, provider, subject, email);
+
+      return await this.startSession(user, req, res, 'oidc');
+    } catch (error) {
+      if (
+        error.name === 'JsonWebTokenError' ||
+        error.name === 'TokenExpiredError'
+      ) {
+        throw new BadRequestException('Invalid or expired signup token');
+      }
+      errorHandler(error, 'AuthService.completeOidcSignup');
+    }
+  }
+
+  async unlinkOidc(userId: number, provider: string) {
+    try {
+      await this.oidcService.unlink(userId, provider.toLowerCase());
+
+      return { message: 'Account unlinked successfully' };
+    } catch (error) {
+      errorHandler(error, 'AuthService.unlinkOidc');
+    }
+  }
+
+  async getLinkedIdentities(userId: number) {
+    try {
+      const identities = await this.oidcService.findAllForUser(userId);
+
+      return { identities };
+    } catch (error) {
+      errorHandler(error, 'AuthService.getLinkedIdentities');
+    }
+  }
+
+  // Users with two-factor authentication get a challenge instead of tokens
+  private async completeLogin(
+    user: User,
+    req: Request,
+    res: Response,
+    method: LoginMethod,
+  ) {
+    if (user.two_factor_enabled) {
+      const challengeId = randomBytes(16).toString('hex');
+
+      await this.userService.setTwoFactorChallengeId(user.id, challengeId);
+
+      const challengeToken = this.jwtService.generateTwoFactorToken({
+        userId: user.id,
+        challengeId,
+      });
+
+      return { twoFactorRequired: true, challengeToken };
+    }
+
+    return await this.startSession(user, req, res, method);
+  }
+
+  private async startSession(
+    user: User,
+    req: Request,
+    res: Response,
+    method: LoginMethod,
+  ) {
+    // Logging in during the deletion grace period restores the account
+    if (user.deactivated_at) {
+      if (this.userService.isPastDeletionGracePeriod(user)) {
+        throw new UnauthorizedException('Invalid credentials');
+      }
+
+      await this.userService.reactivate(user.id);
+    }
+
+    const session = await this.sessionsService.create(user.id, {
+      userAgent: req.headers['user-agent'],
+      ip: req.ip,
+    });
+
+    const { accessToken, refreshToken } = this.jwtService.generateTokens({
+      userId: user.id,
+      sessionId: session.id,
+      role: user.role,
+      tokenVersion: user.token_version,
+    });
+
+    await this.sessionsService.setRefreshToken(session.id, refreshToken);
+
+    this.cookiesService.setRefreshToken(res, refreshToken);
+
+    await this.securityLogService.record(
+      user.id,
+      SecurityEventType.LOGIN_SUCCEEDED,
+      req,
+      { method },
+    );
+
+    return {
+      accessToken,
+      ...(user.deactivated_at && { reactivated: true }),
+    };
+  }
+
+  /**
+   * Accepts either a TOTP code or an unused recovery code. TOTP codes are
+   * accepted once per time step and recovery codes are used up on success.
+   */
+  private async checkTwoFactorCode(user: User, code: string) {
+    if (!user.two_factor_secret) {
+      return false;
+    }
+
+    const step = verifyTotp(user.two_factor_secret, code);
+
+    if (step !== null) {
+      if (
+        user.two_factor_last_step !== null &&
+        step <= user.two_factor_last_step
+      ) {
+        return false;
+      }
+
+      await this.userService.updateTwoFactorState(user.id, {
+        two_factor_last_step: step,
+        two_factor_recovery_codes: user.two_factor_recovery_codes,
+      });
+      return true;
+    }
+
+    const hashedCode = this.hashRecoveryCode(code);
+    const recoveryCodes = user.two_factor_recovery_codes ?? [];
+
+    if (!recoveryCodes.includes(hashedCode)) {
+      return false;
+    }
+
+    await this.userService.updateTwoFactorState(user.id, {
+      two_factor_last_step: user.two_factor_last_step,
+      two_factor_recovery_codes: recoveryCodes.filter(
+        (recoveryCode) => recoveryCode !== hashedCode,
+      ),
+    });
+    return true;
+  }
+
+  // Sent to the address on file before the change took effect
+  private sendSecurityAlert(user: User, change: SecurityAlertChange) {
+    const alertToken = this.jwtService.generateSecurityAlertToken({
+      userId: user.id,
+      change,
+      email: user.email,
+    });
+
+    // Delivery problems are logged by EmailService and must not undo the change
+    this.emailService
+      .sendSecurityAlertEmail(user.email, user.username, change, alertToken)
+      .catch(() => {});
+  }
+
+  private hashRecoveryCode(code: string) {
+    return createHash('sha256')
+      .update(code.trim().toLowerCase().replace(/[\s-]/g, ''))
+      .digest('hex');
+  }
+
+  /**
+   * First login with an unknown external account. Accounts are never matched
+   * by email automatically, since that would let a provider take one over.
+   */
+  private async startOidcSignup(provider: string, claims: OidcClaims) {
+    if (!claims.email || claims.email_verified !== true) {
+      throw new BadRequestException(
+        'The identity provider did not return a verified email address',
+      );
+    }
+
+    // A pending signup with this email is replaced, like a regular signup
+    const existingUser = await this.userService.getUserForAuth(claims.email);
+
+    if (existingUser?.is_active) {
+      throw new ConflictException(
+        'An account with this email already exists. Log in and link the provider instead.',
+      );
+    }
+
+    const localPart = claims.email.split('@')[0];
+    const name = (claims.name || localPart).slice(0, 50).padEnd(2, '_');
+
+    const signupToken = this.jwtService.generateOidcSignupToken({
+      provider,
+      subject: claims.sub,
+      email: claims.email.toLowerCase(),
+      name,
+    });
+
+    return {
+      signupRequired: true,
+      signupToken,
+      email: claims.email.toLowerCase(),
+      name,
+      suggestedUsername: this.suggestUsername(
+        claims.preferred_username || localPart,
+      ),
+    };
+  }
+
+  private suggestUsername(source: string) {
+    const cleaned = source
+      .replace(/[^A-Za-z0-9_]/g, '_')
+      .replace(/_+/g, '_')
+      .replace(/^[^A-Za-z]+/, '')
+      .slice(0, 15)
+      .replace(/_+$/, '');
+
+    return cleaned.length >= 3 ? cleaned : null;
+  }
+
+  private passwordFingerprint(hashedPassword: string) {
+    return createHash('sha256').update(hashedPassword).digest('hex');
+  }
 }
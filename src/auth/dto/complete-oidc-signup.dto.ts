@@ -0,0 +1,26 @@
+import { IsNotEmpty, IsString, Matches } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CompleteOidcSignupDto {
+  @ApiProperty({
+    description: 'Signup token returned by the identity provider callback',
+    example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+  })
+  @IsNotEmpty()
+  @IsString()
+  signup_token: string;
+
+  @ApiProperty({
+    description:
+      'Unique username (3-15 characters, starts with letter, can contain letters, numbers, and underscores, no consecutive underscores)',
+    example: 'john_doe123',
+    pattern: '^(?!.*__)[A-Za-z][A-Za-z0-9_]{1,13}[A-Za-z0-9]$',
+  })
+  @IsNotEmpty()
+  @IsString()
+  @Matches(/^(?!.*__)[A-Za-z][A-Za-z0-9_]{1,13}[A-Za-z0-9]$/, {
+    message:
+      'Username must be 3-15 characters, start with a letter, and can only contain letters, numbers, and underscores (no consecutive underscores)',
+  })
+  username: string;
+}
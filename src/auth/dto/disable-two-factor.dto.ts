@@ -0,0 +1,31 @@
+import {
+  IsNotEmpty,
+  IsString,
+  Length,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class DisableTwoFactorDto {
+  @ApiProperty({
+    description: 'Current password',
+    example: 'MyPassword123',
+    minLength: 4,
+    maxLength: 72,
+  })
+  @IsNotEmpty()
+  @IsString()
+  @MinLength(4)
+  @MaxLength(72)
+  password: string;
+
+  @ApiProperty({
+    description: 'Authenticator code or one of the recovery codes',
+    example: '123456',
+  })
+  @IsNotEmpty()
+  @IsString()
+  @Length(6, 20)
+  code: string;
+}
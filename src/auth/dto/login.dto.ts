@@ -16,11 +16,11 @@ export class LoginDto {
     description: 'User password',
     example: 'MyPassword123',
     minLength: 4,
-    maxLength: 20,
+    maxLength: 72,
   })
   @IsNotEmpty()
   @IsString()
   @MinLength(4)
-  @MaxLength(20)
+  @MaxLength(72)
   password: string;
 }
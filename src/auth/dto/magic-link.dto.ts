@@ -0,0 +1,16 @@
+import { IsEmail, IsNotEmpty, IsString, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class MagicLinkDto {
+  @ApiProperty({
+    description: 'Email address of the account',
+    example: 'john.doe@example.com',
+    format: 'email',
+    maxLength: 255,
+  })
+  @IsNotEmpty()
+  @IsString()
+  @IsEmail()
+  @MaxLength(255)
+  email: string;
+}
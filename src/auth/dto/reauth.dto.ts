@@ -0,0 +1,35 @@
+import {
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Length,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class ReauthDto {
+  @ApiPropertyOptional({
+    description: 'Current password. Either this or code is required.',
+    example: 'MyPassword123',
+    minLength: 4,
+    maxLength: 72,
+  })
+  @IsOptional()
+  @IsNotEmpty()
+  @IsString()
+  @MinLength(4)
+  @MaxLength(72)
+  password?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Authenticator code or one of the recovery codes, for accounts with two-factor authentication',
+    example: '123456',
+  })
+  @IsOptional()
+  @IsNotEmpty()
+  @IsString()
+  @Length(6, 20)
+  code?: string;
+}
@@ -0,0 +1,33 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ResetPasswordDto {
+  @ApiProperty({
+    description: 'Password reset token (from the reset email link)',
+    example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+  })
+  @IsNotEmpty()
+  @IsString()
+  token: string;
+
+  @ApiProperty({
+    description:
+      'New password. Must satisfy the password policy (see GET /auth/password-policy)',
+    example: 'NewPassword456',
+    maxLength: 72,
+  })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(72)
+  new_password: string;
+
+  @ApiProperty({
+    description: 'New password confirmation (must match new_password)',
+    example: 'NewPassword456',
+    maxLength: 72,
+  })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(72)
+  confirm_new_password: string;
+}
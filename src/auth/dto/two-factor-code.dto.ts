@@ -0,0 +1,14 @@
+import { IsNotEmpty, IsString, Matches } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class TwoFactorCodeDto {
+  @ApiProperty({
+    description: '6-digit code from the authenticator app',
+    example: '123456',
+    pattern: '^\\d{6}$',
+  })
+  @IsNotEmpty()
+  @IsString()
+  @Matches(/^\d{6}$/, { message: 'code must be a 6-digit number' })
+  code: string;
+}
@@ -6,35 +6,32 @@ export class UpdatePasswordDto {
     description: 'Current password',
     example: 'OldPassword123',
     minLength: 4,
-    maxLength: 20,
+    maxLength: 72,
   })
   @IsNotEmpty()
   @IsString()
   @MinLength(4)
-  @MaxLength(20)
+  @MaxLength(72)
   current_password: string;
 
   @ApiProperty({
-    description: 'New password',
+    description:
+      'New password. Must satisfy the password policy (see GET /auth/password-policy)',
     example: 'NewPassword456',
-    minLength: 4,
-    maxLength: 20,
+    maxLength: 72,
   })
   @IsNotEmpty()
   @IsString()
-  @MinLength(4)
-  @MaxLength(20)
+  @MaxLength(72)
   new_password: string;
 
   @ApiProperty({
     description: 'New password confirmation (must match new_password)',
     example: 'NewPassword456',
-    minLength: 4,
-    maxLength: 20,
+    maxLength: 72,
   })
   @IsNotEmpty()
   @IsString()
-  @MinLength(4)
-  @MaxLength(20)
+  @MaxLength(72)
   confirm_new_password: string;
 }
@@ -0,0 +1,21 @@
+import { IsNotEmpty, IsString, Length } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class VerifyTwoFactorDto {
+  @ApiProperty({
+    description: 'Challenge token returned by /auth/login',
+    example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+  })
+  @IsNotEmpty()
+  @IsString()
+  challenge_token: string;
+
+  @ApiProperty({
+    description: 'Authenticator code or one of the recovery codes',
+    example: '123456',
+  })
+  @IsNotEmpty()
+  @IsString()
+  @Length(6, 20)
+  code: string;
+}
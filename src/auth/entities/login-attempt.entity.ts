@@ -0,0 +1,20 @@
+import { Column, Entity, PrimaryGeneratedColumn } from 'typeorm';
+
+@Entity('login_attempts')
+export class LoginAttempt {
+  @PrimaryGeneratedColumn('increment')
+  id: number;
+
+  // "user:<id>", "identifier:<unknown username or email>" or "ip:<address>"
+  @Column({ type: 'varchar', length: 300, nullable: false, unique: true })
+  key: string;
+
+  @Column({ type: 'integer', nullable: false, default: 0 })
+  failed_count: number;
+
+  @Column({ type: 'timestamptz', nullable: false })
+  last_failed_at: Date;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  locked_until: Date | null;
+}
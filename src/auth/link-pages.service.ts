@@ -0,0 +1,190 @@
+import { HttpException, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type { Request, Response } from 'express';
+
+// The emailed links that open API routes directly in the browser
+export type LinkAction = 'activate' | 'update-email' | 'secure-account';
+
+const PAGE_TITLES: Record<LinkAction, string> = {
+  activate: 'Account Activation',
+  'update-email': 'Email Update',
+  'secure-account': 'Account Security',
+};
+
+/**
+ * Answers the routes behind emailed links. API clients get the plain result
+ * as before. Browsers are redirected to LINK_RESULT_REDIRECT_URL with the
+ * outcome in the query string when it is set, and get an HTML page
+ * otherwise.
+ */
+@Injectable()
+export class LinkPagesService {
+  constructor(private configService: ConfigService) {}
+
+  async respond(
+    req: Request,
+    res: Response,
+    action: LinkAction,
+    handle: () => Promise<string | undefined>,
+  ) {
+    if (req.accepts(['json', 'html']) !== 'html') {
+      res.send(await handle());
+      return;
+    }
+
+    let statusCode = 200;
+    let message: string;
+
+    try {
+      message = (await handle()) ?? '';
+    } catch (error) {
+      if (!(error instanceof HttpException)) {
+        throw error;
+      }
+
+      statusCode = error.getStatus();
+      message = this.messageOf(error);
+    }
+
+    const success = statusCode < 400;
+    const redirectUrl = this.configService.get<string>(
+      'LINK_RESULT_REDIRECT_URL',
+    );
+
+    if (redirectUrl) {
+      const url = new URL(redirectUrl);
+      url.searchParams.set('action', action);
+      url.searchParams.set('status', success ? 'success' : 'error');
+      url.searchParams.set('message', message);
+
+      res.redirect(url.toString());
+      return;
+    }
+
+    res
+      .status(statusCode)
+      .type('html')
+      .send(this.renderPage(PAGE_TITLES[action], message, success));
+  }
+
+  /**
+   * Answers the GET of a link whose action must not run on a plain visit,
+   * since mail scanners and link previews open links too. Browsers get a
+   * page with a button that posts the token back to the same route, or are
+   * sent to LINK_RESULT_REDIRECT_URL with the token to confirm it there.
+   * API clients are told to POST the token.
+   */
+  confirm(
+    req: Request,
+    res: Response,
+    action: LinkAction,
+    token: string,
+    prompt: { message: string; button: string },
+  ) {
+    if (req.accepts(['json', 'html']) !== 'html') {
+      res.send({
+        message: `Send the token in a POST request to /auth/${action} to continue`,
+      });
+      return;
+    }
+
+    const redirectUrl = this.configService.get<string>(
+      'LINK_RESULT_REDIRECT_URL',
+    );
+
+    if (redirectUrl) {
+      const url = new URL(redirectUrl);
+      url.searchParams.set('action', action);
+      url.searchParams.set('status', 'confirm');
+      url.searchParams.set('token', token ?? '');
+
+      res.redirect(url.toString());
+      return;
+    }
+
+    const form = `
+            <form method="post" action="${this.escape(action)}">
+              <input type="hidden" name="token" value="${this.escape(token ?? '')}">
+              <button type="submit" class="button">${this.escape(prompt.button)}</button>
+            </form>`;
+
+    res
+      .type('html')
+      .send(this.renderPage(PAGE_TITLES[action], prompt.message, true, form));
+  }
+
+  private messageOf(error: HttpException) {
+    const response = error.getResponse();
+
+    if (typeof response === 'string') {
+      return response;
+    }
+
+    const { message } = response as { message?: string | string[] };
+    return Array.isArray(message) ? message.join(', ') : (message ?? '');
+  }
+
+  private renderPage(
+    title: string,
+    message: string,
+    success: boolean,
+    form?: string,
+  ) {
+    const color = success ? '#4CAF50' : '#E53935';
+    const frontendUrl = this.configService.get<string>('FRONTEND_URL');
+    const actions =
+      form ??
+      (frontendUrl
+        ? `<a href="${this.escape(frontendUrl)}" class="button">Go to PostHub</a>`
+        : '');
+
+    return `
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1">
+        <title>${this.escape(title)} - PostHub</title>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; margin: 0; }
+          .container { max-width: 600px; margin: 40px auto; padding: 20px; }
+          .header { background-color: ${color}; color: white; padding: 20px; text-align: center; }
+          .content { padding: 20px; background-color: #f9f9f9; text-align: center; }
+          .button {
+            display: inline-block;
+            padding: 12px 24px;
+            background-color: ${color};
+            color: white;
+            text-decoration: none;
+            border: none;
+            border-radius: 4px;
+            font-size: 16px;
+            cursor: pointer;
+            margin: 20px 0;
+          }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>${this.escape(title)}</h1>
+          </div>
+          <div class="content">
+            <p>${this.escape(message)}</p>
+            ${actions}
+          </div>
+        </div>
+      </body>
+    </html>
+    `;
+  }
+
+  private escape(value: string) {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+}
@@ -0,0 +1,60 @@
+import { HttpException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DataSource, Repository } from 'typeorm';
+import { LoginAttemptsService } from './login-attempts.service';
+import { LoginAttempt } from './entities/login-attempt.entity';
+import { createTestDataSource } from '../../test/database';
+
+describe('LoginAttemptsService', () => {
+  let dataSource: DataSource;
+  let attemptRepo: Repository<LoginAttempt>;
+  let service: LoginAttemptsService;
+
+  beforeEach(async () => {
+    dataSource = await createTestDataSource();
+    attemptRepo = dataSource.getRepository(LoginAttempt);
+
+    const configService = {
+      get: (_key: string, defaultValue?: unknown) => defaultValue,
+    } as ConfigService;
+
+    service = new LoginAttemptsService(attemptRepo, configService);
+  });
+
+  afterEach(() => dataSource.destroy());
+
+  describe('recordFailure', () => {
+    it('counts every one of concurrent failures and locks the account once', async () => {
+      const results = await Promise.all(
+        Array.from({ length: 8 }, () => service.recordFailure(7, '10.0.0.1')),
+      );
+
+      expect(results.filter(Boolean)).toHaveLength(1);
+      await expect(attemptRepo.findOneBy({ key: 'user:7' })).resolves.toEqual(
+        expect.objectContaining({
+          failed_count: 8,
+          locked_until: expect.any(Date),
+        }),
+      );
+      await expect(
+        service.assertCanAttempt(7, '10.0.0.2'),
+      ).rejects.toBeInstanceOf(HttpException);
+    });
+
+    it('starts over once the last failure is older than the lockout', async () => {
+      await attemptRepo.save(
+        attemptRepo.create({
+          key: 'user:7',
+          failed_count: 4,
+          last_failed_at: new Date(Date.now() - 60 * 60 * 1000),
+          locked_until: null,
+        }),
+      );
+
+      await expect(service.recordFailure(7)).resolves.toBe(false);
+      await expect(attemptRepo.findOneBy({ key: 'user:7' })).resolves.toEqual(
+        expect.objectContaining({ failed_count: 1, locked_until: null }),
+      );
+    });
+  });
+});
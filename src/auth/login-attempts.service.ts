@@ -0,0 +1,192 @@
+import { HttpException, HttpStatus, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { In, LessThan, Repository } from 'typeorm';
+import { LoginAttempt } from './entities/login-attempt.entity';
+import { errorHandler } from '../utils/error_handler';
+
+// Longest wait between two attempts before the lockout kicks in
+const MAX_DELAY_SECONDS = 30;
+
+/**
+ * What a login attempt counts against: the user id once the identifier
+ * resolves, so the email and the username of an account share one budget,
+ * or the identifier as typed when no account matches.
+ */
+export type LoginAccount = number | string;
+
+@Injectable()
+export class LoginAttemptsService {
+  constructor(
+    @InjectRepository(LoginAttempt)
+    private readonly attemptRepo: Repository<LoginAttempt>,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Throws 429 while the account or the client IP is locked out or still
+   * inside its progressive delay. Unknown identifiers are tracked the same
+   * way, so the answer never tells whether an account exists.
+   */
+  async assertCanAttempt(account: LoginAccount, ip?: string) {
+    try {
+      const attempts = await this.attemptRepo.findBy({
+        key: In(this.keysFor(account, ip)),
+      });
+
+      const now = Date.now();
+      const retryAt = Math.max(
+        0,
+        ...attempts
+          .filter((attempt) => !this.isStale(attempt, now))
+          .map((attempt) => this.nextAllowedAt(attempt)),
+      );
+
+      if (retryAt > now) {
+        throw new HttpException(
+          `Too many failed login attempts. Please try again in ${Math.ceil((retryAt - now) / 1000)} seconds.`,
+          HttpStatus.TOO_MANY_REQUESTS,
+        );
+      }
+    } catch (error) {
+      errorHandler(error, 'LoginAttemptsService.assertCanAttempt');
+    }
+  }
+
+  /**
+   * Counts a failed attempt for the account and the IP. Returns true when
+   * this failure has just locked the account.
+   */
+  async recordFailure(account: LoginAccount, ip?: string) {
+    try {
+      const [accountKey, ipKey] = this.keysFor(account, ip);
+      const limits: [string, number][] = [
+        [accountKey, Number(this.configService.get('LOGIN_MAX_ATTEMPTS', 5))],
+      ];
+
+      if (ipKey) {
+        limits.push([
+          ipKey,
+          Number(this.configService.get('LOGIN_IP_MAX_ATTEMPTS', 20)),
+        ]);
+      }
+
+      let accountLocked = false;
+
+      for (const [key, maxAttempts] of limits) {
+        const justLocked = await this.countFailure(key, maxAttempts);
+        accountLocked ||= justLocked && key === accountKey;
+      }
+
+      return accountLocked;
+    } catch (error) {
+      errorHandler(error, 'LoginAttemptsService.recordFailure');
+    }
+  }
+
+  async clearAccount(account: LoginAccount) {
+    try {
+      const [accountKey] = this.keysFor(account);
+      await this.attemptRepo.delete({ key: accountKey });
+    } catch (error) {
+      errorHandler(error, 'LoginAttemptsService.clearAccount');
+    }
+  }
+
+  async deleteStaleAttempts() {
+    try {
+      const cutoff = new Date(Date.now() - this.lockoutMs());
+
+      const result = await this.attemptRepo.delete({
+        last_failed_at: LessThan(cutoff),
+      });
+
+      return result.affected || 0;
+    } catch (error) {
+      errorHandler(error, 'LoginAttemptsService.deleteStaleAttempts');
+    }
+  }
+
+  getLockoutMinutes() {
+    return Number(this.configService.get('LOGIN_LOCKOUT_MINUTES', 15));
+  }
+
+  private lockoutMs() {
+    return this.getLockoutMinutes() * 60 * 1000;
+  }
+
+  /**
+   * Adds one failure to the key in a single upsert, so concurrent failures
+   * are all counted and exactly one of them sees the count reach the limit.
+   * Stale rows start over like in isStale. Returns true when this failure
+   * set the lock.
+   */
+  private async countFailure(key: string, maxAttempts: number) {
+    const now = new Date();
+    const lockedUntil = new Date(now.getTime() + this.lockoutMs());
+    const staleBefore = new Date(now.getTime() - this.lockoutMs());
+    const stale = `(login_attempts.last_failed_at < $3 AND (login_attempts.locked_until IS NULL OR login_attempts.locked_until <= $2))`;
+
+    const [row]: { failed_count: number; locked_until: Date | null }[] =
+      await this.attemptRepo.query(
+        `INSERT INTO login_attempts (key, failed_count, last_failed_at, locked_until)
+         VALUES ($1, 1, $2, CASE WHEN $4 <= 1 THEN $5::timestamptz END)
+         ON CONFLICT (key) DO UPDATE SET
+           failed_count = CASE WHEN ${stale} THEN 1 ELSE login_attempts.failed_count + 1 END,
+           locked_until = CASE
+             WHEN ${stale} THEN CASE WHEN $4 <= 1 THEN $5::timestamptz END
+             WHEN login_attempts.locked_until IS NULL AND login_attempts.failed_count + 1 >= $4 THEN $5::timestamptz
+             ELSE login_attempts.locked_until
+           END,
+           last_failed_at = EXCLUDED.last_failed_at
+         RETURNING failed_count, locked_until`,
+        [key, now, staleBefore, maxAttempts, lockedUntil],
+      );
+
+    return row.locked_until !== null && row.failed_count === maxAttempts;
+  }
+
+  private nextAllowedAt(attempt: LoginAttempt) {
+    if (attempt.locked_until) {
+      return attempt.locked_until.getTime();
+    }
+
+    // First failure is free, then 1s, 2s, 4s, ... between attempts
+    if (attempt.failed_count < 2) {
+      return 0;
+    }
+
+    const delaySeconds = Math.min(
+      2 ** (attempt.failed_count - 2),
+      MAX_DELAY_SECONDS,
+    );
+
+    return attempt.last_failed_at.getTime() + delaySeconds * 1000;
+  }
+
+  private isStale(attempt: LoginAttempt, now: number) {
+    if (!attempt.last_failed_at) {
+      return true;
+    }
+
+    if (attempt.locked_until && attempt.locked_until.getTime() > now) {
+      return false;
+    }
+
+    return attempt.last_failed_at.getTime() < now - this.lockoutMs();
+  }
+
+  private keysFor(account: LoginAccount, ip?: string) {
+    const keys = [
+      typeof account === 'number'
+        ? `user:${account}`
+        : `identifier:${account.trim().toLowerCase()}`,
+    ];
+
+    if (ip) {
+      keys.push(`ip:${ip}`);
+    }
+
+    return keys;
+  }
+}
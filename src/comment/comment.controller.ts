@@ -25,7 +25,10 @@ import { CommentService } from './comment.service';
 import { CreateCommentDto } from './dto/create-comment.dto';
 import { UpdateCommentDto } from './dto/update-comment.dto';
 import { JwtAuthGuard } from '../guards/jwt-auth.guard';
+import { OptionalJwtAuthGuard } from '../guards/optional-jwt-auth.guard';
 import { CurrentUser } from '../decorators/current-user.decorator';
+import { Scopes } from '../decorators/scopes.decorator';
+import { ApiTokenScope } from '../api-tokens/entities/api-token.entity';
 
 @ApiTags('Comments')
 @Controller('comments')
@@ -34,6 +37,7 @@ export class CommentController {
 
   @Post()
   @UseGuards(JwtAuthGuard)
+  @Scopes(ApiTokenScope.COMMENTS_WRITE)
   @ApiBearerAuth('JWT-auth')
   @HttpCode(HttpStatus.CREATED)
   @ApiOperation({
@@ -108,11 +112,14 @@ export class CommentController {
   }
 
   @Get()
+  @UseGuards(OptionalJwtAuthGuard)
+  @Scopes(ApiTokenScope.READ)
+  @ApiBearerAuth('JWT-auth')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
     summary: 'Get all comments for a post',
     description:
-      'Get a paginated list of comments (20 per page) for a specific post. Comments are ordered by creation date (newest first).',
+      "Get a paginated list of comments (20 per page) for a specific post. Comments are ordered by creation date (newest first). Comments on posts of private accounts are only shown to the owner and approved followers, so authentication is optional. With an access token, comments by users the caller blocked or muted and comments with the caller's muted keywords are left out.",
   })
   @ApiQuery({
     name: 'postId',
@@ -141,6 +148,7 @@ export class CommentController {
             user: {
               id: 3,
               username: 'jane_smith',
+              avatar: null,
             },
           },
           {
@@ -152,6 +160,7 @@ export class CommentController {
             user: {
               id: 2,
               username: 'alice_wonder',
+              avatar: null,
             },
           },
         ],
@@ -185,6 +194,7 @@ export class CommentController {
   })
   async findAll(
     @Query('postId', ParseIntPipe) postId: number,
+    @CurrentUser() viewerId: number | undefined,
     @Query('page') page?: string,
   ) {
     if (page && !/^\d+$/.test(page)) {
@@ -195,14 +205,19 @@ export class CommentController {
     return this.commentService.findAll({
       postId,
       page: parsedPage,
+      viewerId,
     });
   }
 
   @Get(':id')
+  @UseGuards(OptionalJwtAuthGuard)
+  @Scopes(ApiTokenScope.READ)
+  @ApiBearerAuth('JWT-auth')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
     summary: 'Get a single comment by ID',
-    description: 'Get detailed information about a specific comment.',
+    description:
+      'Get detailed information about a specific comment. Comments on posts of private accounts are only shown to the owner and approved followers, so authentication is optional.',
   })
   @ApiParam({
     name: 'id',
@@ -222,6 +237,7 @@ export class CommentController {
         user: {
           id: 2,
           username: 'alice_wonder',
+          avatar: null,
         },
         post: {
           id: 1,
@@ -240,12 +256,16 @@ export class CommentController {
       },
     },
   })
-  async findOne(@Param('id', ParseIntPipe) id: number) {
-    return this.commentService.findOne(id);
+  async findOne(
+    @Param('id', ParseIntPipe) id: number,
+    @CurrentUser() viewerId: number | undefined,
+  ) {
+    return this.commentService.findOne(id, viewerId);
   }
 
   @Patch(':id')
   @UseGuards(JwtAuthGuard)
+  @Scopes(ApiTokenScope.COMMENTS_WRITE)
   @ApiBearerAuth('JWT-auth')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
@@ -317,6 +337,7 @@ export class CommentController {
 
   @Delete(':id')
   @UseGuards(JwtAuthGuard)
+  @Scopes(ApiTokenScope.COMMENTS_WRITE)
   @ApiBearerAuth('JWT-auth')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
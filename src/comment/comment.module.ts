@@ -4,10 +4,18 @@ import { CommentController } from './comment.controller';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { Comment } from './entities/comment.entity';
 import { JwtModule } from '../jwt/jwt.module';
+import { ApiTokensModule } from '../api-tokens/api-tokens.module';
+import { SessionsModule } from '../sessions/sessions.module';
 import { PostModule } from '../post/post.module';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([Comment]), JwtModule, PostModule],
+  imports: [
+    TypeOrmModule.forFeature([Comment]),
+    JwtModule,
+    PostModule,
+    ApiTokensModule,
+    SessionsModule,
+  ],
   controllers: [CommentController],
   providers: [CommentService],
 })
@@ -4,7 +4,7 @@ import {
   ForbiddenException,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { FindOptionsWhere, Repository } from 'typeorm';
 import { Comment } from './entities/comment.entity';
 import { CreateCommentDto } from './dto/create-comment.dto';
 import { UpdateCommentDto } from './dto/update-comment.dto';
@@ -12,10 +12,13 @@ import { errorHandler } from '../utils/error_handler';
 import { User } from '../users/entities/user.entity';
 import { Post } from '../post/entities/post.entity';
 import { PostService } from '../post/post.service';
+import { visibleAuthors, visibleUsers } from '../users/visible-authors';
+import { withoutMutedKeywords } from '../mutes/muted-keywords';
 
 interface GetCommentsPayload {
   postId: number;
   page?: number;
+  viewerId?: number;
 }
 
 @Injectable()
@@ -32,7 +35,8 @@ export class CommentService {
     postId: number,
   ) {
     try {
-      const post = await this.PostService.findOne(postId);
+      // Posts are not found when there is a block between the two users
+      const post = await this.PostService.findOne(postId, userId);
 
       const comment = this.commentRepo.create({
         text: createCommentDto.text,
@@ -47,10 +51,14 @@ export class CommentService {
     }
   }
 
-  async findOne(id: number) {
+  async findOne(id: number, viewerId?: number) {
     try {
       const comment = await this.commentRepo.findOne({
-        where: { id },
+        where: visibleAuthors(viewerId).map((author) => ({
+          id,
+          user: visibleUsers(viewerId),
+          post: { user: author },
+        })),
         relations: ['user'],
         select: {
           id: true,
@@ -58,7 +66,7 @@ export class CommentService {
           edited: true,
           created_at: true,
           updated_at: true,
-          user: { id: true, username: true },
+          user: { id: true, username: true, avatar: true },
           post: { id: true },
         },
       });
@@ -75,12 +83,29 @@ export class CommentService {
 
   async findAll(payload: GetCommentsPayload) {
     try {
-      const { postId, page = 1 } = payload;
+      const { postId, page = 1, viewerId } = payload;
       const take = 20;
       const skip = (page - 1) * take;
 
+      // Muted users and keywords never hide the viewer's own comments
+      const commenters: FindOptionsWhere<Comment>[] = viewerId
+        ? [
+            {
+              user: visibleUsers(viewerId, { excludeMuted: true }),
+              text: withoutMutedKeywords(viewerId),
+            },
+            { user: { id: viewerId } },
+          ]
+        : [{ user: visibleUsers() }];
+
+      // Comments follow the visibility of the post they belong to
       const [comments, total] = await this.commentRepo.findAndCount({
-        where: { post: { id: postId } },
+        where: visibleAuthors(viewerId).flatMap((author) =>
+          commenters.map((commenter) => ({
+            ...commenter,
+            post: { id: postId, user: author },
+          })),
+        ),
         relations: ['user'],
         select: {
           id: true,
@@ -88,7 +113,7 @@ export class CommentService {
           edited: true,
           created_at: true,
           updated_at: true,
-          user: { id: true, username: true },
+          user: { id: true, username: true, avatar: true },
         },
         order: { created_at: 'DESC' },
         skip,
@@ -0,0 +1,155 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CookieOptions, Request, Response } from 'express';
+import { randomBytes, timingSafeEqual } from 'crypto';
+
+type SameSite = 'strict' | 'lax' | 'none';
+
+// Matches the refresh token lifetime
+const REFRESH_COOKIE_MAX_AGE = 7 * 24 * 60 * 60 * 1000;
+
+const OIDC_TRANSACTION_COOKIE = 'oidc_tx';
+
+// Matches the OIDC transaction token lifetime
+const OIDC_TRANSACTION_MAX_AGE = 10 * 60 * 1000;
+
+/**
+ * Single place for the refresh token cookie, its CSRF companion and the
+ * short-lived cookie that carries an OIDC login across the provider redirect.
+ *
+ * The CSRF token is a double-submit token: it is stored in a cookie that
+ * scripts on the frontend can read (COOKIE_DOMAIN lets a frontend on another
+ * subdomain see it) and must be echoed back in the CSRF header on every
+ * request authenticated by the refresh cookie. Another site can make the
+ * browser send the cookies but cannot read them to set the header.
+ */
+@Injectable()
+export class CookiesService {
+  constructor(private configService: ConfigService) {}
+
+  getRefreshCookieName() {
+    return this.configService.get<string>(
+      'REFRESH_COOKIE_NAME',
+      'refreshToken',
+    );
+  }
+
+  getCsrfHeaderName() {
+    return this.configService
+      .get<string>('CSRF_HEADER_NAME', 'X-CSRF-Token')
+      .toLowerCase();
+  }
+
+  getRefreshToken(req: Request): string | undefined {
+    return req.cookies?.[this.getRefreshCookieName()];
+  }
+
+  setRefreshToken(res: Response, refreshToken: string) {
+    res.cookie(this.getRefreshCookieName(), refreshToken, {
+      ...this.getRefreshCookieOptions(),
+      httpOnly: true,
+      maxAge: REFRESH_COOKIE_MAX_AGE,
+    });
+
+    // A new token with every refresh cookie, so it never outlives the session
+    res.cookie(
+      this.getCsrfCookieName(),
+      randomBytes(32).toString('base64url'),
+      {
+        ...this.getCsrfCookieOptions(),
+        httpOnly: false,
+        maxAge: REFRESH_COOKIE_MAX_AGE,
+      },
+    );
+  }
+
+  clearRefreshToken(res: Response) {
+    res.clearCookie(
+      this.getRefreshCookieName(),
+      this.getRefreshCookieOptions(),
+    );
+    res.clearCookie(this.getCsrfCookieName(), this.getCsrfCookieOptions());
+  }
+
+  getOidcTransaction(req: Request): string | undefined {
+    return req.cookies?.[OIDC_TRANSACTION_COOKIE];
+  }
+
+  setOidcTransaction(res: Response, transactionToken: string) {
+    res.cookie(OIDC_TRANSACTION_COOKIE, transactionToken, {
+      ...this.getOidcTransactionCookieOptions(),
+      httpOnly: true,
+      maxAge: OIDC_TRANSACTION_MAX_AGE,
+    });
+  }
+
+  clearOidcTransaction(res: Response) {
+    res.clearCookie(
+      OIDC_TRANSACTION_COOKIE,
+      this.getOidcTransactionCookieOptions(),
+    );
+  }
+
+  isValidCsrfToken(req: Request) {
+    const cookieToken = req.cookies?.[this.getCsrfCookieName()];
+    const headerToken = req.headers[this.getCsrfHeaderName()];
+
+    if (typeof cookieToken !== 'string' || typeof headerToken !== 'string') {
+      return false;
+    }
+
+    const expected = Buffer.from(cookieToken);
+    const actual = Buffer.from(headerToken);
+
+    return (
+      expected.length > 0 &&
+      expected.length === actual.length &&
+      timingSafeEqual(expected, actual)
+    );
+  }
+
+  private getCsrfCookieName() {
+    return this.configService.get<string>('CSRF_COOKIE_NAME', 'csrfToken');
+  }
+
+  private getRefreshCookieOptions(): CookieOptions {
+    return {
+      ...this.getBaseOptions(),
+      path: this.configService.get<string>('REFRESH_COOKIE_PATH', '/'),
+    };
+  }
+
+  // Scripts only see cookies whose path covers the page, so keep it at the root
+  private getCsrfCookieOptions(): CookieOptions {
+    return { ...this.getBaseOptions(), path: '/' };
+  }
+
+  // The provider sends the browser back with a cross-site GET, which a Strict cookie would miss
+  private getOidcTransactionCookieOptions(): CookieOptions {
+    const options = this.getBaseOptions();
+
+    return {
+      ...options,
+      sameSite: options.sameSite === 'strict' ? 'lax' : options.sameSite,
+      path: '/auth/oidc',
+    };
+  }
+
+  private getBaseOptions(): CookieOptions {
+    const sameSite = this.configService
+      .get<string>('COOKIE_SAME_SITE', 'lax')
+      .toLowerCase() as SameSite;
+    const secureSetting = this.configService.get<string>('COOKIE_SECURE');
+
+    return {
+      domain: this.configService.get<string>('COOKIE_DOMAIN') || undefined,
+      sameSite,
+      // Browsers reject SameSite=None cookies that are not Secure
+      secure:
+        sameSite === 'none' ||
+        (secureSetting !== undefined
+          ? secureSetting === 'true'
+          : this.configService.get<string>('NODE_ENV') === 'production'),
+    };
+  }
+}
@@ -1,8 +1,10 @@
 import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { TokenPayload } from '../jwt/jwt.service';
 
 export const CurrentUser = createParamDecorator(
-  (data: unknown, ctx: ExecutionContext) => {
+  (data: keyof TokenPayload | undefined, ctx: ExecutionContext) => {
     const request = ctx.switchToHttp().getRequest();
-    return request.user.userId;
+    // Undefined on anonymous requests let through by OptionalJwtAuthGuard
+    return request.user?.[data ?? 'userId'];
   },
 );
@@ -0,0 +1,5 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const REQUIRES_REAUTH_KEY = 'requiresReauth';
+
+export const RequiresReauth = () => SetMetadata(REQUIRES_REAUTH_KEY, true);
@@ -0,0 +1,8 @@
+import { SetMetadata } from '@nestjs/common';
+import { ApiTokenScope } from '../api-tokens/entities/api-token.entity';
+
+export const SCOPES_KEY = 'scopes';
+
+// Routes without @Scopes() do not accept personal access tokens at all
+export const Scopes = (...scopes: ApiTokenScope[]) =>
+  SetMetadata(SCOPES_KEY, scopes);
@@ -3,6 +3,7 @@ import * as nodemailer from 'nodemailer';
 import { Transporter } from 'nodemailer';
 import { ConfigService } from '@nestjs/config';
 import { errorHandler } from '../utils/error_handler';
+import type { SecurityAlertChange } from '../jwt/jwt.service';
 
 @Injectable()
 export class EmailService {
@@ -23,7 +24,11 @@ export class EmailService {
     username: string,
     updateToken: string,
   ): Promise<void> {
-    const updateUrl = `${this.configService.get<string>('THE_URL')}/auth/update-email?token=${updateToken}`;
+    const updateUrl = this.buildLink(
+      'EMAIL_UPDATE_URL_TEMPLATE',
+      `${this.configService.get<string>('THE_URL')}/auth/update-email?token={token}`,
+      updateToken,
+    );
 
     const subject = 'Verify Your New Email Address';
 
@@ -108,7 +113,11 @@ If you didn't request this change, please ignore this email and your email addre
     username: string,
     activationToken: string,
   ): Promise<void> {
-    const activationUrl = `${this.configService.get<string>('THE_URL')}/auth/activate?token=${activationToken}`;
+    const activationUrl = this.buildLink(
+      'ACTIVATION_URL_TEMPLATE',
+      `${this.configService.get<string>('THE_URL')}/auth/activate?token={token}`,
+      activationToken,
+    );
 
     const subject = 'Activate Your Account';
 
@@ -170,6 +179,409 @@ If you don't activate within 24 hours, your account will be automatically delete
 
 If you didn't create an account, please ignore this email.
 
+© ${new Date().getFullYear()} PostHub. All rights reserved.
+    `;
+
+    await this.sendEmail(to, subject, textContent, htmlContent);
+  }
+
+  async sendPasswordResetEmail(
+    to: string,
+    username: string,
+    resetToken: string,
+    expiresIn: string,
+  ): Promise<void> {
+    const resetUrl = this.buildLink(
+      'PASSWORD_RESET_URL_TEMPLATE',
+      `${this.configService.get<string>('FRONTEND_URL')}/reset-password?token={token}`,
+      resetToken,
+    );
+
+    const subject = 'Reset Your Password';
+
+    const htmlContent = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background-color: #4CAF50; color: white; padding: 20px; text-align: center; }
+            .content { padding: 20px; background-color: #f9f9f9; }
+            .button { 
+              display: inline-block; 
+              padding: 12px 24px; 
+              background-color: #4CAF50; 
+              color: white; 
+              text-decoration: none; 
+              border-radius: 4px;
+              margin: 20px 0;
+            }
+            .footer { padding: 20px; text-align: center; font-size: 12px; color: #666; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>Password Reset Request</h1>
+            </div>
+            <div class="content">
+              <h2>Hello, ${username}!</h2>
+              <p>We received a request to reset your password. Click the button below to choose a new one:</p>
+              <div style="text-align: center;">
+                <a href="${resetUrl}" class="button">Reset Password</a>
+              </div>
+              <p>Or copy and paste this link into your browser:</p>
+              <p style="word-break: break-all; color: #4CAF50;">${resetUrl}</p>
+              <p><strong>This link will expire in ${expiresIn} and can only be used once.</strong></p>
+              <p><strong>After the reset you will be logged out on all devices.</strong></p>
+              <p>If you didn't request a password reset, please ignore this email. Your password will remain unchanged.</p>
+            </div>
+            <div class="footer">
+              <p>&copy; ${new Date().getFullYear()} PostHub. All rights reserved.</p>
+            </div>
+          </div>
+        </body>
+      </html>
+    `;
+
+    const textContent = `
+Hello, ${username}!
+
+We received a request to reset your password. Choose a new one by visiting this link:
+
+${resetUrl}
+
+This link will expire in ${expiresIn} and can only be used once.
+After the reset you will be logged out on all devices.
+
+If you didn't request a password reset, please ignore this email. Your password will remain unchanged.
+
+© ${new Date().getFullYear()} PostHub. All rights reserved.
+    `;
+
+    await this.sendEmail(to, subject, textContent, htmlContent);
+  }
+
+  async sendMagicLinkEmail(
+    to: string,
+    username: string,
+    magicLinkToken: string,
+    expiresIn: string,
+  ): Promise<void> {
+    const loginUrl = this.buildLink(
+      'MAGIC_LINK_URL_TEMPLATE',
+      `${this.configService.get<string>('FRONTEND_URL')}/magic-link?token={token}`,
+      magicLinkToken,
+    );
+
+    const subject = 'Your PostHub Login Link';
+
+    const htmlContent = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background-color: #4CAF50; color: white; padding: 20px; text-align: center; }
+            .content { padding: 20px; background-color: #f9f9f9; }
+            .button {
+              display: inline-block;
+              padding: 12px 24px;
+              background-color: #4CAF50;
+              color: white;
+              text-decoration: none;
+              border-radius: 4px;
+              margin: 20px 0;
+            }
+            .footer { padding: 20px; text-align: center; font-size: 12px; color: #666; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>Log In to PostHub</h1>
+            </div>
+            <div class="content">
+              <h2>Hello, ${username}!</h2>
+              <p>Click the button below to log in without a password:</p>
+              <div style="text-align: center;">
+                <a href="${loginUrl}" class="button">Log In</a>
+              </div>
+              <p>Or copy and paste this link into your browser:</p>
+              <p style="word-break: break-all; color: #4CAF50;">${loginUrl}</p>
+              <p><strong>This link will expire in ${expiresIn} and can only be used once. Requesting a new link cancels this one.</strong></p>
+              <p>If you didn't request a login link, please ignore this email.</p>
+            </div>
+            <div class="footer">
+              <p>&copy; ${new Date().getFullYear()} PostHub. All rights reserved.</p>
+            </div>
+          </div>
+        </body>
+      </html>
+    `;
+
+    const textContent = `
+Hello, ${username}!
+
+Log in to PostHub without a password by visiting this link:
+
+${loginUrl}
+
+This link will expire in ${expiresIn} and can only be used once. Requesting a new link cancels this one.
+
+If you didn't request a login link, please ignore this email.
+
+© ${new Date().getFullYear()} PostHub. All rights reserved.
+    `;
+
+    await this.sendEmail(to, subject, textContent, htmlContent);
+  }
+
+  async sendLoginLockoutEmail(
+    to: string,
+    username: string,
+    lockoutMinutes: number,
+  ): Promise<void> {
+    const subject = 'Login Temporarily Locked';
+
+    const htmlContent = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background-color: #E53935; color: white; padding: 20px; text-align: center; }
+            .content { padding: 20px; background-color: #f9f9f9; }
+            .footer { padding: 20px; text-align: center; font-size: 12px; color: #666; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>Too Many Failed Logins</h1>
+            </div>
+            <div class="content">
+              <h2>Hello, ${username}!</h2>
+              <p>We noticed several failed attempts to log in to your account, so logging in is blocked for the next ${lockoutMinutes} minutes.</p>
+              <p>If this was you, simply wait and try again. If you forgot your password, you can reset it from the login page.</p>
+              <p><strong>If this wasn't you, someone may be trying to guess your password. We recommend choosing a strong, unique password and enabling two-factor authentication.</strong></p>
+            </div>
+            <div class="footer">
+              <p>&copy; ${new Date().getFullYear()} PostHub. All rights reserved.</p>
+            </div>
+          </div>
+        </body>
+      </html>
+    `;
+
+    const textContent = `
+Hello, ${username}!
+
+We noticed several failed attempts to log in to your account, so logging in is blocked for the next ${lockoutMinutes} minutes.
+
+If this was you, simply wait and try again. If you forgot your password, you can reset it from the login page.
+
+If this wasn't you, someone may be trying to guess your password. We recommend choosing a strong, unique password and enabling two-factor authentication.
+
+© ${new Date().getFullYear()} PostHub. All rights reserved.
+    `;
+
+    await this.sendEmail(to, subject, textContent, htmlContent);
+  }
+
+  async sendSecurityAlertEmail(
+    to: string,
+    username: string,
+    change: SecurityAlertChange,
+    alertToken: string,
+  ): Promise<void> {
+    const secureUrl = this.buildLink(
+      'SECURE_ACCOUNT_URL_TEMPLATE',
+      `${this.configService.get<string>('THE_URL')}/auth/secure-account?token={token}`,
+      alertToken,
+    );
+
+    const subject = {
+      email: 'Your Email Address Was Changed',
+      password: 'Your Password Was Changed',
+      refresh_token_reuse: 'Suspicious Sign-In Activity',
+    }[change];
+    const changeText = {
+      email:
+        'The email address of your PostHub account was just changed. This address will no longer receive emails about your account.',
+      password: 'The password of your PostHub account was just changed.',
+      refresh_token_reuse:
+        'A login session of your PostHub account was just used with an outdated token, which can mean the token was stolen. That session has been logged out.',
+    }[change];
+    const undoText =
+      change === 'email'
+        ? 'restore this email address, log out every device and ask you to choose a new password'
+        : 'log out every device and ask you to choose a new password';
+
+    const htmlContent = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background-color: #E53935; color: white; padding: 20px; text-align: center; }
+            .content { padding: 20px; background-color: #f9f9f9; }
+            .button {
+              display: inline-block;
+              padding: 12px 24px;
+              background-color: #E53935;
+              color: white;
+              text-decoration: none;
+              border-radius: 4px;
+              margin: 20px 0;
+            }
+            .footer { padding: 20px; text-align: center; font-size: 12px; color: #666; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>Security Alert</h1>
+            </div>
+            <div class="content">
+              <h2>Hello, ${username}!</h2>
+              <p>${changeText}</p>
+              <p>If this was you, no action is needed.</p>
+              <p><strong>If this wasn't you, secure your account right away.</strong> This will ${undoText}:</p>
+              <div style="text-align: center;">
+                <a href="${secureUrl}" class="button">This Wasn't Me</a>
+              </div>
+              <p>Or copy and paste this link into your browser:</p>
+              <p style="word-break: break-all; color: #E53935;">${secureUrl}</p>
+              <p><strong>This link will expire in 7 days.</strong></p>
+            </div>
+            <div class="footer">
+              <p>&copy; ${new Date().getFullYear()} PostHub. All rights reserved.</p>
+            </div>
+          </div>
+        </body>
+      </html>
+    `;
+
+    const textContent = `
+Hello, ${username}!
+
+${changeText}
+
+If this was you, no action is needed.
+
+If this wasn't you, secure your account right away. This will ${undoText}:
+
+${secureUrl}
+
+This link will expire in 7 days.
+
+© ${new Date().getFullYear()} PostHub. All rights reserved.
+    `;
+
+    await this.sendEmail(to, subject, textContent, htmlContent);
+  }
+
+  async sendAccountDeactivatedEmail(
+    to: string,
+    username: string,
+    graceDays: number,
+  ): Promise<void> {
+    const subject = 'Your Account Is Scheduled for Deletion';
+
+    const htmlContent = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background-color: #E53935; color: white; padding: 20px; text-align: center; }
+            .content { padding: 20px; background-color: #f9f9f9; }
+            .footer { padding: 20px; text-align: center; font-size: 12px; color: #666; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>Account Deactivated</h1>
+            </div>
+            <div class="content">
+              <h2>Hello, ${username}!</h2>
+              <p>Your PostHub account has been deactivated. Your profile, posts, comments and likes are hidden and you have been logged out on all devices.</p>
+              <p><strong>Your account and all of its data will be permanently deleted in ${graceDays} days.</strong></p>
+              <p>Changed your mind? Simply log in again before then to restore everything.</p>
+              <p>If you didn't request this, log in right away and change your password.</p>
+            </div>
+            <div class="footer">
+              <p>&copy; ${new Date().getFullYear()} PostHub. All rights reserved.</p>
+            </div>
+          </div>
+        </body>
+      </html>
+    `;
+
+    const textContent = `
+Hello, ${username}!
+
+Your PostHub account has been deactivated. Your profile, posts, comments and likes are hidden and you have been logged out on all devices.
+
+Your account and all of its data will be permanently deleted in ${graceDays} days.
+
+Changed your mind? Simply log in again before then to restore everything.
+
+If you didn't request this, log in right away and change your password.
+
+© ${new Date().getFullYear()} PostHub. All rights reserved.
+    `;
+
+    await this.sendEmail(to, subject, textContent, htmlContent);
+  }
+
+  async sendAccountDeletedEmail(to: string, username: string): Promise<void> {
+    const subject = 'Your Account Has Been Deleted';
+
+    const htmlContent = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background-color: #4CAF50; color: white; padding: 20px; text-align: center; }
+            .content { padding: 20px; background-color: #f9f9f9; }
+            .footer { padding: 20px; text-align: center; font-size: 12px; color: #666; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>Account Deleted</h1>
+            </div>
+            <div class="content">
+              <h2>Goodbye, ${username}!</h2>
+              <p>Your PostHub account and all of its posts, comments, likes and follows have now been permanently deleted.</p>
+              <p>Thank you for being part of PostHub. You are always welcome to sign up again.</p>
+            </div>
+            <div class="footer">
+              <p>&copy; ${new Date().getFullYear()} PostHub. All rights reserved.</p>
+            </div>
+          </div>
+        </body>
+      </html>
+    `;
+
+    const textContent = `
+Goodbye, ${username}!
+
+Your PostHub account and all of its posts, comments, likes and follows have now been permanently deleted.
+
+Thank you for being part of PostHub. You are always welcome to sign up again.
+
 © ${new Date().getFullYear()} PostHub. All rights reserved.
     `;
 
@@ -196,4 +608,20 @@ If you didn't create an account, please ignore this email.
       errorHandler(error, 'EmailService.sendEmail');
     }
   }
+
+  /**
+   * Emailed links point at the API by default. Setting the matching
+   * *_URL_TEMPLATE sends them to a frontend page instead; "{token}" in the
+   * template is replaced with the token.
+   */
+  private buildLink(
+    templateKey: string,
+    defaultTemplate: string,
+    token: string,
+  ) {
+    const template =
+      this.configService.get<string>(templateKey) || defaultTemplate;
+
+    return template.replaceAll('{token}', encodeURIComponent(token));
+  }
 }
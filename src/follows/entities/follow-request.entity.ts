@@ -0,0 +1,25 @@
+import {
+  CreateDateColumn,
+  Entity,
+  Index,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+
+// A pending follow of a private account, waiting for the owner's approval
+@Entity('follow_requests')
+@Index(['requester', 'target'], { unique: true })
+export class FollowRequest {
+  @PrimaryGeneratedColumn('increment')
+  id: number;
+
+  @ManyToOne(() => User, { nullable: false, onDelete: 'CASCADE' })
+  requester: User;
+
+  @ManyToOne(() => User, { nullable: false, onDelete: 'CASCADE' })
+  target: User;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  created_at: Date;
+}
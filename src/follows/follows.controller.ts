@@ -21,7 +21,10 @@ import {
 } from '@nestjs/swagger';
 import { FollowsService } from './follows.service';
 import { JwtAuthGuard } from '../guards/jwt-auth.guard';
+import { OptionalJwtAuthGuard } from '../guards/optional-jwt-auth.guard';
 import { CurrentUser } from '../decorators/current-user.decorator';
+import { Scopes } from '../decorators/scopes.decorator';
+import { ApiTokenScope } from '../api-tokens/entities/api-token.entity';
 
 @ApiTags('Follows')
 @Controller('follows')
@@ -30,12 +33,13 @@ export class FollowsController {
 
   @Post(':id')
   @UseGuards(JwtAuthGuard)
+  @Scopes(ApiTokenScope.FOLLOWS_WRITE)
   @ApiBearerAuth('JWT-auth')
   @HttpCode(HttpStatus.CREATED)
   @ApiOperation({
     summary: 'Follow a user',
     description:
-      'Start following another user. Users cannot follow themselves, and cannot follow the same user twice.',
+      'Start following another user. Users cannot follow themselves, and cannot follow the same user twice. Following a private account sends a follow request instead, which the owner approves or rejects; requested is true in that case.',
   })
   @ApiParam({
     name: 'id',
@@ -48,6 +52,7 @@ export class FollowsController {
     schema: {
       example: {
         message: 'Successfully followed user',
+        requested: false,
       },
     },
   })
@@ -73,6 +78,17 @@ export class FollowsController {
       },
     },
   })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - One of the users has blocked the other',
+    schema: {
+      example: {
+        statusCode: 403,
+        message: 'You cannot interact with this user',
+        error: 'Forbidden',
+      },
+    },
+  })
   @ApiResponse({
     status: 404,
     description: 'User to follow not found',
@@ -86,7 +102,8 @@ export class FollowsController {
   })
   @ApiResponse({
     status: 409,
-    description: 'Conflict - Already following this user',
+    description:
+      'Conflict - Already following this user or already requested to follow them',
     schema: {
       example: {
         statusCode: 409,
@@ -104,12 +121,13 @@ export class FollowsController {
 
   @Delete(':id')
   @UseGuards(JwtAuthGuard)
+  @Scopes(ApiTokenScope.FOLLOWS_WRITE)
   @ApiBearerAuth('JWT-auth')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
     summary: 'Unfollow a user',
     description:
-      'Stop following a user. Can only unfollow users that are currently being followed.',
+      'Stop following a user. Can only unfollow users that are currently being followed. If the user has not approved a follow request yet, the request is cancelled instead.',
   })
   @ApiParam({
     name: 'id',
@@ -165,12 +183,273 @@ export class FollowsController {
     return this.followsService.unfollow(currentUserId, userIdToUnfollow);
   }
 
+  @Get('requests')
+  @UseGuards(JwtAuthGuard)
+  @Scopes(ApiTokenScope.READ)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Get follow requests sent to the current user',
+    description:
+      'Get a paginated list (20 per page) of pending requests to follow the current user, newest first. Only private accounts receive requests.',
+  })
+  @ApiQuery({
+    name: 'page',
+    description: 'Page number (default: 1)',
+    required: false,
+    example: 1,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Follow requests retrieved successfully',
+    schema: {
+      example: {
+        requests: [
+          {
+            id: 7,
+            user: {
+              id: 3,
+              name: 'Bob Builder',
+              username: 'bob_builder',
+              description: null,
+              avatar: null,
+            },
+            requested_at: '2024-01-25T10:00:00.000Z',
+          },
+        ],
+        total: 1,
+        page: 1,
+        totalPages: 1,
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad Request - Invalid query parameters',
+    schema: {
+      example: {
+        statusCode: 400,
+        message: 'page must be a valid integer',
+        error: 'Bad Request',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing access token',
+    schema: {
+      example: {
+        statusCode: 401,
+        message: 'Access token not found',
+        error: 'Unauthorized',
+      },
+    },
+  })
+  async getFollowRequests(
+    @CurrentUser() currentUserId: number,
+    @Query('page') page?: string,
+  ) {
+    if (page && !/^\d+$/.test(page)) {
+      throw new BadRequestException('page must be a valid integer');
+    }
+    const parsedPage = page ? parseInt(page, 10) : 1;
+    return this.followsService.getFollowRequests({
+      userId: currentUserId,
+      page: parsedPage,
+    });
+  }
+
+  @Get('requests/sent')
+  @UseGuards(JwtAuthGuard)
+  @Scopes(ApiTokenScope.READ)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Get follow requests sent by the current user',
+    description:
+      'Get a paginated list (20 per page) of follow requests the current user sent that are still waiting for approval, newest first. Unfollowing the user cancels a request.',
+  })
+  @ApiQuery({
+    name: 'page',
+    description: 'Page number (default: 1)',
+    required: false,
+    example: 1,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Sent follow requests retrieved successfully',
+    schema: {
+      example: {
+        requests: [
+          {
+            id: 9,
+            user: {
+              id: 4,
+              name: 'Carol Private',
+              username: 'carol',
+              description: 'Friends only',
+              avatar: null,
+            },
+            requested_at: '2024-01-26T08:15:00.000Z',
+          },
+        ],
+        total: 1,
+        page: 1,
+        totalPages: 1,
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad Request - Invalid query parameters',
+    schema: {
+      example: {
+        statusCode: 400,
+        message: 'page must be a valid integer',
+        error: 'Bad Request',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing access token',
+    schema: {
+      example: {
+        statusCode: 401,
+        message: 'Access token not found',
+        error: 'Unauthorized',
+      },
+    },
+  })
+  async getSentFollowRequests(
+    @CurrentUser() currentUserId: number,
+    @Query('page') page?: string,
+  ) {
+    if (page && !/^\d+$/.test(page)) {
+      throw new BadRequestException('page must be a valid integer');
+    }
+    const parsedPage = page ? parseInt(page, 10) : 1;
+    return this.followsService.getSentFollowRequests({
+      userId: currentUserId,
+      page: parsedPage,
+    });
+  }
+
+  @Post('requests/:id/approve')
+  @UseGuards(JwtAuthGuard)
+  @Scopes(ApiTokenScope.FOLLOWS_WRITE)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Approve a follow request',
+    description:
+      'Approve a pending request to follow the current user. The requester becomes a follower.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID of the follow request',
+    example: 7,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Follow request approved',
+    schema: {
+      example: {
+        message: 'Follow request approved',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing access token',
+    schema: {
+      example: {
+        statusCode: 401,
+        message: 'Access token not found',
+        error: 'Unauthorized',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'No pending request with this ID for the current user',
+    schema: {
+      example: {
+        statusCode: 404,
+        message: 'Follow request not found',
+        error: 'Not Found',
+      },
+    },
+  })
+  async approveFollowRequest(
+    @CurrentUser() currentUserId: number,
+    @Param('id', ParseIntPipe) requestId: number,
+  ) {
+    return this.followsService.approveFollowRequest(currentUserId, requestId);
+  }
+
+  @Delete('requests/:id')
+  @UseGuards(JwtAuthGuard)
+  @Scopes(ApiTokenScope.FOLLOWS_WRITE)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Reject a follow request',
+    description:
+      'Reject a pending request to follow the current user. The requester is not notified and can ask again.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID of the follow request',
+    example: 7,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Follow request rejected',
+    schema: {
+      example: {
+        message: 'Follow request rejected',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing access token',
+    schema: {
+      example: {
+        statusCode: 401,
+        message: 'Access token not found',
+        error: 'Unauthorized',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'No pending request with this ID for the current user',
+    schema: {
+      example: {
+        statusCode: 404,
+        message: 'Follow request not found',
+        error: 'Not Found',
+      },
+    },
+  })
+  async rejectFollowRequest(
+    @CurrentUser() currentUserId: number,
+    @Param('id', ParseIntPipe) requestId: number,
+  ) {
+    return this.followsService.rejectFollowRequest(currentUserId, requestId);
+  }
+
   @Get('followers/:id')
+  @UseGuards(OptionalJwtAuthGuard)
+  @Scopes(ApiTokenScope.READ)
+  @ApiBearerAuth('JWT-auth')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
     summary: 'Get followers of a user',
     description:
-      'Get a paginated list of users (20 per page) who are following a specific user. Results are ordered by follow date (newest first).',
+      'Get a paginated list of users (20 per page) who are following a specific user. Results are ordered by follow date (newest first). Lists of private accounts are only shown to the owner and approved followers. Authentication is optional; with an access token every user also has is_following, follows_me and follow_requested for the caller.',
   })
   @ApiParam({
     name: 'id',
@@ -194,14 +473,22 @@ export class FollowsController {
             name: 'Alice Wonder',
             username: 'alice_wonder',
             description: 'Designer and artist',
+            avatar: null,
             followed_at: '2024-01-25T10:00:00.000Z',
+            is_following: true,
+            follows_me: true,
+            follow_requested: false,
           },
           {
             id: 3,
             name: 'Bob Builder',
             username: 'bob_builder',
             description: null,
+            avatar: null,
             followed_at: '2024-01-24T15:30:00.000Z',
+            is_following: false,
+            follows_me: true,
+            follow_requested: false,
           },
         ],
         total: 2,
@@ -210,6 +497,18 @@ export class FollowsController {
       },
     },
   })
+  @ApiResponse({
+    status: 403,
+    description:
+      'Private account - only the owner and approved followers can see this list. Also returned with "You cannot view this account" when either user has blocked the other',
+    schema: {
+      example: {
+        statusCode: 403,
+        message: 'This account is private',
+        error: 'Forbidden',
+      },
+    },
+  })
   @ApiResponse({
     status: 404,
     description: 'User not found',
@@ -245,6 +544,7 @@ export class FollowsController {
   })
   async getFollowers(
     @Param('id', ParseIntPipe) userId: number,
+    @CurrentUser() viewerId: number | undefined,
     @Query('page') page?: string,
   ) {
     if (page && !/^\d+$/.test(page)) {
@@ -254,15 +554,19 @@ export class FollowsController {
     return this.followsService.getFollowers({
       userId,
       page: parsedPage,
+      viewerId,
     });
   }
 
   @Get('following/:id')
+  @UseGuards(OptionalJwtAuthGuard)
+  @Scopes(ApiTokenScope.READ)
+  @ApiBearerAuth('JWT-auth')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
     summary: 'Get users that a user is following',
     description:
-      'Get a paginated list of users (20 per page) that a specific user is following. Results are ordered by follow date (newest first).',
+      'Get a paginated list of users (20 per page) that a specific user is following. Results are ordered by follow date (newest first). Lists of private accounts are only shown to the owner and approved followers. Authentication is optional; with an access token every user also has is_following, follows_me and follow_requested for the caller.',
   })
   @ApiParam({
     name: 'id',
@@ -286,14 +590,22 @@ export class FollowsController {
             name: 'Carol King',
             username: 'carol_king',
             description: 'Photographer',
+            avatar: null,
             followed_at: '2024-01-25T12:00:00.000Z',
+            is_following: true,
+            follows_me: false,
+            follow_requested: false,
           },
           {
             id: 5,
             name: 'Dave Wilson',
             username: 'dave_w',
             description: 'Tech enthusiast',
+            avatar: null,
             followed_at: '2024-01-23T09:00:00.000Z',
+            is_following: false,
+            follows_me: true,
+            follow_requested: false,
           },
         ],
         total: 2,
@@ -302,6 +614,18 @@ export class FollowsController {
       },
     },
   })
+  @ApiResponse({
+    status: 403,
+    description:
+      'Private account - only the owner and approved followers can see this list. Also returned with "You cannot view this account" when either user has blocked the other',
+    schema: {
+      example: {
+        statusCode: 403,
+        message: 'This account is private',
+        error: 'Forbidden',
+      },
+    },
+  })
   @ApiResponse({
     status: 404,
     description: 'User not found',
@@ -337,6 +661,7 @@ export class FollowsController {
   })
   async getFollowing(
     @Param('id', ParseIntPipe) userId: number,
+    @CurrentUser() viewerId: number | undefined,
     @Query('page') page?: string,
   ) {
     if (page && !/^\d+$/.test(page)) {
@@ -346,11 +671,13 @@ export class FollowsController {
     return this.followsService.getFollowing({
       userId,
       page: parsedPage,
+      viewerId,
     });
   }
 
   @Get('status/:id')
   @UseGuards(JwtAuthGuard)
+  @Scopes(ApiTokenScope.READ)
   @ApiBearerAuth('JWT-auth')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
@@ -396,11 +723,14 @@ export class FollowsController {
   }
 
   @Get('counts/:id')
+  @UseGuards(OptionalJwtAuthGuard)
+  @Scopes(ApiTokenScope.READ)
+  @ApiBearerAuth('JWT-auth')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
     summary: 'Get follower and following counts for a user',
     description:
-      'Get the total number of followers and following for a specific user.',
+      'Get the total number of followers and following for a specific user. Authentication is optional. A block in either direction makes the counts answer 404, like the profile.',
   })
   @ApiParam({
     name: 'id',
@@ -428,7 +758,10 @@ export class FollowsController {
       },
     },
   })
-  async getFollowCounts(@Param('id', ParseIntPipe) userId: number) {
-    return this.followsService.getFollowCounts(userId);
+  async getFollowCounts(
+    @Param('id', ParseIntPipe) userId: number,
+    @CurrentUser() viewerId?: number,
+  ) {
+    return this.followsService.getFollowCounts(userId, viewerId);
   }
 }
@@ -4,10 +4,19 @@ import { FollowsController } from './follows.controller';
 import { UsersModule } from '../users/users.module';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { Follow } from './entities/follow.entity';
+import { FollowRequest } from './entities/follow-request.entity';
 import { JwtModule } from '../jwt/jwt.module';
+import { ApiTokensModule } from '../api-tokens/api-tokens.module';
+import { SessionsModule } from '../sessions/sessions.module';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([Follow]), UsersModule, JwtModule],
+  imports: [
+    TypeOrmModule.forFeature([Follow, FollowRequest]),
+    UsersModule,
+    JwtModule,
+    ApiTokensModule,
+    SessionsModule,
+  ],
   controllers: [FollowsController],
   providers: [FollowsService],
 })
@@ -5,22 +5,29 @@ import {
   NotFoundException,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { IsNull, Repository } from 'typeorm';
 import { Follow } from './entities/follow.entity';
+import { FollowRequest } from './entities/follow-request.entity';
 import { errorHandler } from '../utils/error_handler';
 import { UsersService } from '../users/users.service';
+import { BlocksService } from '../users/blocks.service';
+import { visibleUsers } from '../users/visible-authors';
 import { User } from '../users/entities/user.entity';
 
 interface FollowPayload {
   userId: number;
   page?: number;
+  viewerId?: number;
 }
 
 @Injectable()
 export class FollowsService {
   constructor(
     @InjectRepository(Follow) private readonly followRepo: Repository<Follow>,
+    @InjectRepository(FollowRequest)
+    private readonly followRequestRepo: Repository<FollowRequest>,
     private userService: UsersService,
+    private blocksService: BlocksService,
   ) {}
 
   async follow(currentUserId: number, userIdToFollow: number) {
@@ -29,6 +36,13 @@ export class FollowsService {
         throw new BadRequestException('You cannot follow yourself');
       }
 
+      const target = await this.userService.getOne({ id: userIdToFollow });
+      await this.blocksService.assertNotBlocked(currentUserId, userIdToFollow);
+
+      if (target.is_private) {
+        return await this.requestFollow(currentUserId, userIdToFollow);
+      }
+
       const follow = this.followRepo.create({
         follower: { id: currentUserId } as User,
         followed: { id: userIdToFollow } as User,
@@ -36,7 +50,13 @@ export class FollowsService {
 
       await this.followRepo.save(follow);
 
-      return { message: 'Successfully followed user' };
+      // A request sent while the account was private is no longer needed
+      await this.followRequestRepo.delete({
+        requester: { id: currentUserId },
+        target: { id: userIdToFollow },
+      });
+
+      return { message: 'Successfully followed user', requested: false };
     } catch (error) {
       if (error.code === '23503') {
         throw new NotFoundException('User not found');
@@ -50,6 +70,37 @@ export class FollowsService {
     }
   }
 
+  private async requestFollow(currentUserId: number, targetId: number) {
+    const alreadyFollowing = await this.followRepo.existsBy({
+      follower: { id: currentUserId },
+      followed: { id: targetId },
+    });
+
+    if (alreadyFollowing) {
+      throw new ConflictException('You are already following this user');
+    }
+
+    const alreadyRequested = await this.followRequestRepo.existsBy({
+      requester: { id: currentUserId },
+      target: { id: targetId },
+    });
+
+    if (alreadyRequested) {
+      throw new ConflictException(
+        'You have already requested to follow this user',
+      );
+    }
+
+    const request = this.followRequestRepo.create({
+      requester: { id: currentUserId } as User,
+      target: { id: targetId } as User,
+    });
+
+    await this.followRequestRepo.save(request);
+
+    return { message: 'Follow request sent', requested: true };
+  }
+
   async unfollow(currentUserId: number, userIdToUnfollow: number) {
     try {
       if (currentUserId === userIdToUnfollow) {
@@ -62,7 +113,17 @@ export class FollowsService {
       });
 
       if (deleteRes.affected === 0) {
-        throw new NotFoundException('Follow relationship not found');
+        // Unfollowing an account that has not approved yet cancels the request
+        const requestRes = await this.followRequestRepo.delete({
+          requester: { id: currentUserId },
+          target: { id: userIdToUnfollow },
+        });
+
+        if (requestRes.affected === 0) {
+          throw new NotFoundException('Follow relationship not found');
+        }
+
+        return { message: 'Follow request cancelled' };
       }
 
       return { message: 'Successfully unfollowed user' };
@@ -73,18 +134,18 @@ export class FollowsService {
 
   async getFollowers(payload: FollowPayload) {
     try {
-      const { userId, page = 1 } = payload;
+      const { userId, page = 1, viewerId } = payload;
 
       const take = 20;
       const skip = (Math.max(1, page) - 1) * take;
 
-      const userExists = await this.userService.existsBy(userId);
-      if (!userExists) {
-        throw new NotFoundException('User not found');
-      }
+      await this.userService.assertContentVisible(userId, viewerId);
 
       const [follows, total] = await this.followRepo.findAndCount({
-        where: { followed: { id: userId } as User },
+        where: {
+          followed: { id: userId } as User,
+          follower: visibleUsers(viewerId),
+        },
         relations: ['follower'],
         select: {
           id: true,
@@ -94,6 +155,7 @@ export class FollowsService {
             name: true,
             username: true,
             description: true,
+            avatar: true,
           },
         },
         order: { created_at: 'DESC' },
@@ -102,13 +164,17 @@ export class FollowsService {
       });
 
       return {
-        followers: follows.map((follow) => ({
-          id: follow.follower.id,
-          name: follow.follower.name,
-          username: follow.follower.username,
-          description: follow.follower.description,
-          followed_at: follow.created_at,
-        })),
+        followers: await this.userService.addViewerFields(
+          follows.map((follow) => ({
+            id: follow.follower.id,
+            name: follow.follower.name,
+            username: follow.follower.username,
+            description: follow.follower.description,
+            avatar: follow.follower.avatar,
+            followed_at: follow.created_at,
+          })),
+          viewerId,
+        ),
         total,
         page: Math.max(1, page),
         totalPages: Math.ceil(total / take),
@@ -120,18 +186,18 @@ export class FollowsService {
 
   async getFollowing(payload: FollowPayload) {
     try {
-      const { userId, page = 1 } = payload;
+      const { userId, page = 1, viewerId } = payload;
 
       const take = 20;
       const skip = (Math.max(1, page) - 1) * take;
 
-      const userExists = await this.userService.existsBy(userId);
-      if (!userExists) {
-        throw new NotFoundException('User not found');
-      }
+      await this.userService.assertContentVisible(userId, viewerId);
 
       const [follows, total] = await this.followRepo.findAndCount({
-        where: { follower: { id: userId } as User },
+        where: {
+          follower: { id: userId } as User,
+          followed: visibleUsers(viewerId),
+        },
         relations: ['followed'],
         select: {
           id: true,
@@ -141,6 +207,7 @@ export class FollowsService {
             name: true,
             username: true,
             description: true,
+            avatar: true,
           },
         },
         order: { created_at: 'DESC' },
@@ -149,13 +216,17 @@ export class FollowsService {
       });
 
       return {
-        following: follows.map((follow) => ({
-          id: follow.followed.id,
-          name: follow.followed.name,
-          username: follow.followed.username,
-          description: follow.followed.description,
-          followed_at: follow.created_at,
-        })),
+        following: await this.userService.addViewerFields(
+          follows.map((follow) => ({
+            id: follow.followed.id,
+            name: follow.followed.name,
+            username: follow.followed.username,
+            description: follow.followed.description,
+            avatar: follow.followed.avatar,
+            followed_at: follow.created_at,
+          })),
+          viewerId,
+        ),
         total,
         page: Math.max(1, page),
         totalPages: Math.ceil(total / take),
@@ -165,6 +236,145 @@ export class FollowsService {
     }
   }
 
+  // Pending requests sent to the user, newest first
+  async getFollowRequests(payload: FollowPayload) {
+    try {
+      const { userId, page = 1 } = payload;
+
+      const take = 20;
+      const skip = (Math.max(1, page) - 1) * take;
+
+      const [requests, total] = await this.followRequestRepo.findAndCount({
+        where: {
+          target: { id: userId },
+          requester: { deactivated_at: IsNull() },
+        },
+        relations: ['requester'],
+        select: {
+          id: true,
+          created_at: true,
+          requester: {
+            id: true,
+            name: true,
+            username: true,
+            description: true,
+            avatar: true,
+          },
+        },
+        order: { created_at: 'DESC' },
+        skip,
+        take,
+      });
+
+      return {
+        requests: requests.map((request) => ({
+          id: request.id,
+          user: request.requester,
+          requested_at: request.created_at,
+        })),
+        total,
+        page: Math.max(1, page),
+        totalPages: Math.ceil(total / take),
+      };
+    } catch (error) {
+      errorHandler(error, 'FollowsService.getFollowRequests');
+    }
+  }
+
+  // Requests the user sent that are still waiting for approval
+  async getSentFollowRequests(payload: FollowPayload) {
+    try {
+      const { userId, page = 1 } = payload;
+
+      const take = 20;
+      const skip = (Math.max(1, page) - 1) * take;
+
+      const [requests, total] = await this.followRequestRepo.findAndCount({
+        where: {
+          requester: { id: userId },
+          target: { deactivated_at: IsNull() },
+        },
+        relations: ['target'],
+        select: {
+          id: true,
+          created_at: true,
+          target: {
+            id: true,
+            name: true,
+            username: true,
+            description: true,
+            avatar: true,
+          },
+        },
+        order: { created_at: 'DESC' },
+        skip,
+        take,
+      });
+
+      return {
+        requests: requests.map((request) => ({
+          id: request.id,
+          user: request.target,
+          requested_at: request.created_at,
+        })),
+        total,
+        page: Math.max(1, page),
+        totalPages: Math.ceil(total / take),
+      };
+    } catch (error) {
+      errorHandler(error, 'FollowsService.getSentFollowRequests');
+    }
+  }
+
+  async approveFollowRequest(currentUserId: number, requestId: number) {
+    try {
+      const request = await this.followRequestRepo.findOne({
+        where: { id: requestId, target: { id: currentUserId } },
+        relations: ['requester'],
+        select: { id: true, requester: { id: true } },
+      });
+
+      if (!request) {
+        throw new NotFoundException('Follow request not found');
+      }
+
+      await this.followRepo.manager.transaction(async (manager) => {
+        await manager
+          .createQueryBuilder()
+          .insert()
+          .into(Follow)
+          .values({
+            follower: { id: request.requester.id },
+            followed: { id: currentUserId },
+          })
+          .orIgnore()
+          .execute();
+        await manager.delete(FollowRequest, { id: request.id });
+      });
+
+      return { message: 'Follow request approved' };
+    } catch (error) {
+      errorHandler(error, 'FollowsService.approveFollowRequest');
+    }
+  }
+
+  async rejectFollowRequest(currentUserId: number, requestId: number) {
+    try {
+      const deleteRes = await this.followRequestRepo.delete({
+        id: requestId,
+        target: { id: currentUserId },
+      });
+
+      if (deleteRes.affected === 0) {
+        throw new NotFoundException('Follow request not found');
+      }
+
+      return { message: 'Follow request rejected' };
+    } catch (error) {
+      errorHandler(error, 'FollowsService.rejectFollowRequest');
+    }
+  }
+
   async isFollowing(currentUserId: number, targetUserId: number) {
     try {
       if (currentUserId === targetUserId) {
@@ -182,16 +392,19 @@ export class FollowsService {
     }
   }
 
-  async getFollowCounts(userId: number) {
+  async getFollowCounts(userId: number, viewerId?: number) {
     try {
-      const userExists = await this.userService.existsBy(userId);
-      if (!userExists) {
-        throw new NotFoundException('User not found');
-      }
+      await this.userService.assertProfileVisible(userId, viewerId);
 
       const [followersCount, followingCount] = await Promise.all([
-        this.followRepo.countBy({ followed: { id: userId } as User }),
-        this.followRepo.countBy({ follower: { id: userId } as User }),
+        this.followRepo.countBy({
+          followed: { id: userId } as User,
+          follower: { deactivated_at: IsNull() },
+        }),
+        this.followRepo.countBy({
+          follower: { id: userId } as User,
+          followed: { deactivated_at: IsNull() },
+        }),
       ]);
 
       return {
@@ -0,0 +1,24 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { Request } from 'express';
+import { CookiesService } from '../cookies/cookies.service';
+
+// For routes authenticated by the refresh token cookie rather than a header
+@Injectable()
+export class CsrfGuard implements CanActivate {
+  constructor(private cookiesService: CookiesService) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest<Request>();
+
+    if (!this.cookiesService.isValidCsrfToken(request)) {
+      throw new ForbiddenException('Invalid or missing CSRF token');
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,65 @@
+import { ExecutionContext, UnauthorizedException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { JwtAuthGuard } from './jwt-auth.guard';
+import { JwtService, TokenPayload } from '../jwt/jwt.service';
+import { ApiTokensService } from '../api-tokens/api-tokens.service';
+import { SessionsService } from '../sessions/sessions.service';
+import { UserRole } from '../users/entities/user.entity';
+
+describe('JwtAuthGuard', () => {
+  let guard: JwtAuthGuard;
+  let storedTokenVersion: number | null;
+
+  const accessToken: TokenPayload = {
+    userId: 2,
+    sessionId: 10,
+    role: UserRole.ADMIN,
+    tokenVersion: 0,
+  };
+
+  const context = () =>
+    ({
+      switchToHttp: () => ({
+        getRequest: () => ({ headers: { authorization: 'Bearer token' } }),
+      }),
+    }) as unknown as ExecutionContext;
+
+  beforeEach(() => {
+    storedTokenVersion = 0;
+
+    const jwtService = {
+      verifyAccessToken: jest.fn(async () => accessToken),
+    };
+    const sessionsService = {
+      getTokenVersion: jest.fn(async () => storedTokenVersion),
+    };
+
+    guard = new JwtAuthGuard(
+      jwtService as unknown as JwtService,
+      {} as ApiTokensService,
+      sessionsService as unknown as SessionsService,
+      new Reflector(),
+    );
+  });
+
+  it('accepts access tokens with the current token version', async () => {
+    await expect(guard.canActivate(context())).resolves.toBe(true);
+  });
+
+  it('rejects access tokens issued before the token version changed', async () => {
+    // e.g. after a role change or a password change
+    storedTokenVersion = 1;
+
+    await expect(guard.canActivate(context())).rejects.toThrow(
+      UnauthorizedException,
+    );
+  });
+
+  it('rejects access tokens of removed sessions', async () => {
+    storedTokenVersion = null;
+
+    await expect(guard.canActivate(context())).rejects.toThrow(
+      UnauthorizedException,
+    );
+  });
+});
@@ -1,15 +1,29 @@
 import {
   CanActivate,
   ExecutionContext,
+  ForbiddenException,
   Injectable,
   UnauthorizedException,
 } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
 import { Request } from 'express';
-import { JwtService } from '../jwt/jwt.service';
+import { JwtService, TokenPayload } from '../jwt/jwt.service';
+import {
+  API_TOKEN_PREFIX,
+  ApiTokensService,
+} from '../api-tokens/api-tokens.service';
+import { ApiTokenScope } from '../api-tokens/entities/api-token.entity';
+import { SCOPES_KEY } from '../decorators/scopes.decorator';
+import { SessionsService } from '../sessions/sessions.service';
 
 @Injectable()
 export class JwtAuthGuard implements CanActivate {
-  constructor(private jwtService: JwtService) {}
+  constructor(
+    private jwtService: JwtService,
+    private apiTokensService: ApiTokensService,
+    private sessionsService: SessionsService,
+    private reflector: Reflector,
+  ) {}
 
   async canActivate(context: ExecutionContext): Promise<boolean> {
     const request = context.switchToHttp().getRequest<Request>();
@@ -19,9 +33,15 @@ export class JwtAuthGuard implements CanActivate {
       throw new UnauthorizedException('Access token not found');
     }
 
+    if (token.startsWith(API_TOKEN_PREFIX)) {
+      request['user'] = await this.authenticateApiToken(token, context);
+      return true;
+    }
+
+    let payload: TokenPayload;
+
     try {
-      const payload = await this.jwtService.verifyAccessToken(token);
-      request['user'] = payload;
+      payload = await this.jwtService.verifyAccessToken(token);
     } catch (error) {
       if (
         error.name === 'JsonWebTokenError' ||
@@ -32,9 +52,56 @@ export class JwtAuthGuard implements CanActivate {
       throw new UnauthorizedException('Authentication failed');
     }
 
+    // Logged out sessions and tokens issued before a password change stop working right away
+    const tokenVersion = await this.sessionsService.getTokenVersion(
+      payload.sessionId,
+      payload.userId,
+    );
+
+    if (tokenVersion === null || tokenVersion !== payload.tokenVersion) {
+      throw new UnauthorizedException('Invalid or expired access token');
+    }
+
+    request['user'] = payload;
+
     return true;
   }
 
+  private async authenticateApiToken(token: string, context: ExecutionContext) {
+    const requiredScopes = this.reflector.getAllAndOverride<ApiTokenScope[]>(
+      SCOPES_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+
+    if (!requiredScopes || requiredScopes.length === 0) {
+      throw new ForbiddenException(
+        'API tokens cannot be used for this endpoint',
+      );
+    }
+
+    const principal = await this.apiTokensService.validate(token);
+
+    if (!principal) {
+      throw new UnauthorizedException('Invalid or expired API token');
+    }
+
+    const missingScope = requiredScopes.find(
+      (scope) => !principal.scopes.includes(scope),
+    );
+
+    if (missingScope) {
+      throw new ForbiddenException(
+        `API token is missing the required scope: ${missingScope}`,
+      );
+    }
+
+    return {
+      userId: principal.userId,
+      apiTokenId: principal.tokenId,
+      scopes: principal.scopes,
+    };
+  }
+
   private extractTokenFromHeader(request: Request): string | undefined {
     const [type, token] = request.headers.authorization?.split(' ') ?? [];
     return type === 'Bearer' ? token : undefined;
@@ -0,0 +1,75 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { OptionalJwtAuthGuard } from './optional-jwt-auth.guard';
+import { JwtService } from '../jwt/jwt.service';
+import { ApiTokensService } from '../api-tokens/api-tokens.service';
+import { SessionsService } from '../sessions/sessions.service';
+import { ApiTokenScope } from '../api-tokens/entities/api-token.entity';
+import { Scopes } from '../decorators/scopes.decorator';
+
+class PostsController {
+  @Scopes(ApiTokenScope.READ)
+  findAll() {}
+}
+
+describe('OptionalJwtAuthGuard', () => {
+  let guard: OptionalJwtAuthGuard;
+  let request: { headers: Record<string, string>; user?: unknown };
+  let tokenScopes: ApiTokenScope[];
+
+  const context = () =>
+    ({
+      switchToHttp: () => ({ getRequest: () => request }),
+      getHandler: () => PostsController.prototype.findAll,
+      getClass: () => PostsController,
+    }) as unknown as ExecutionContext;
+
+  beforeEach(() => {
+    tokenScopes = [ApiTokenScope.READ];
+
+    const jwtService = {
+      verifyAccessToken: jest.fn(async () => {
+        throw Object.assign(new Error('jwt malformed'), {
+          name: 'JsonWebTokenError',
+        });
+      }),
+    };
+    const apiTokensService = {
+      validate: jest.fn(async () => ({
+        tokenId: 1,
+        userId: 2,
+        scopes: tokenScopes,
+      })),
+    };
+
+    guard = new OptionalJwtAuthGuard(
+      jwtService as unknown as JwtService,
+      apiTokensService as unknown as ApiTokensService,
+      {} as SessionsService,
+      new Reflector(),
+    );
+  });
+
+  it('lets requests with an unusable access token through anonymously', async () => {
+    request = { headers: { authorization: 'Bearer not-a-jwt' } };
+
+    await expect(guard.canActivate(context())).resolves.toBe(true);
+    expect(request.user).toBeUndefined();
+  });
+
+  it('accepts API tokens with the read scope', async () => {
+    request = { headers: { authorization: 'Bearer ph_token' } };
+
+    await expect(guard.canActivate(context())).resolves.toBe(true);
+    expect(request.user).toEqual(expect.objectContaining({ userId: 2 }));
+  });
+
+  it('refuses API tokens without the read scope', async () => {
+    tokenScopes = [ApiTokenScope.POSTS_WRITE];
+    request = { headers: { authorization: 'Bearer ph_token' } };
+
+    await expect(guard.canActivate(context())).rejects.toThrow(
+      ForbiddenException,
+    );
+  });
+});
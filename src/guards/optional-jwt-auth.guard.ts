@@ -0,0 +1,39 @@
+import {
+  ExecutionContext,
+  ForbiddenException,
+  HttpException,
+  Injectable,
+} from '@nestjs/common';
+import { Request } from 'express';
+import { JwtAuthGuard } from './jwt-auth.guard';
+
+/**
+ * For public routes that add viewer-specific fields when they know who is
+ * calling. Requests without a usable access token are let through
+ * anonymously instead of being rejected. API tokens without the route's
+ * scope are still refused, so a missing scope is not mistaken for a
+ * logged-out caller.
+ */
+@Injectable()
+export class OptionalJwtAuthGuard extends JwtAuthGuard {
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest<Request>();
+
+    if (!request.headers.authorization) {
+      return true;
+    }
+
+    try {
+      return await super.canActivate(context);
+    } catch (error) {
+      if (
+        error instanceof HttpException &&
+        !(error instanceof ForbiddenException)
+      ) {
+        delete request['user'];
+        return true;
+      }
+      throw error;
+    }
+  }
+}
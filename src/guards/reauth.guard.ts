@@ -0,0 +1,46 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ConfigService } from '@nestjs/config';
+import { Request } from 'express';
+import { REQUIRES_REAUTH_KEY } from '../decorators/requires-reauth.decorator';
+import { TokenPayload } from '../jwt/jwt.service';
+
+// Must run after JwtAuthGuard, which puts the token payload on the request
+@Injectable()
+export class ReauthGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private configService: ConfigService,
+  ) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const requiresReauth = this.reflector.getAllAndOverride<boolean>(
+      REQUIRES_REAUTH_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+
+    if (!requiresReauth) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<Request>();
+    const user = request['user'] as TokenPayload | undefined;
+    const maxAgeSeconds = Number(this.configService.get('REAUTH_MAX_AGE', 300));
+
+    if (
+      !user?.reauthenticatedAt ||
+      Date.now() / 1000 - user.reauthenticatedAt > maxAgeSeconds
+    ) {
+      throw new ForbiddenException(
+        'Please confirm your identity at /auth/reauth to continue',
+      );
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,39 @@
+import { Controller, Get, Header, HttpCode, HttpStatus } from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { JwtKeysService } from './jwt-keys.service';
+
+@ApiTags('Authentication')
+@Controller('.well-known')
+export class JwksController {
+  constructor(private readonly jwtKeysService: JwtKeysService) {}
+
+  @Get('jwks.json')
+  @HttpCode(HttpStatus.OK)
+  @Header('Cache-Control', 'public, max-age=300')
+  @ApiOperation({
+    summary: 'Public keys for verifying access tokens',
+    description:
+      'JSON Web Key Set with every key that may have signed a currently valid access token. Match the "kid" header of the token to pick the key. The set is empty when the server signs with a shared secret.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'JSON Web Key Set',
+    schema: {
+      example: {
+        keys: [
+          {
+            kty: 'RSA',
+            n: '0vx7agoebGcQSuuPiLJXZptN9nndrQmbXEps2aiAFbWhM78LhWx4...',
+            e: 'AQAB',
+            kid: '2024-01',
+            alg: 'RS256',
+            use: 'sig',
+          },
+        ],
+      },
+    },
+  })
+  getJwks() {
+    return this.jwtKeysService.getJwks();
+  }
+}
@@ -0,0 +1,141 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  createPrivateKey,
+  createPublicKey,
+  JsonWebKey,
+  KeyObject,
+} from 'crypto';
+import { readdirSync, readFileSync } from 'fs';
+import { basename, extname, join } from 'path';
+
+export type SigningAlgorithm = 'RS256' | 'ES256';
+
+export interface SigningKey {
+  kid: string;
+  algorithm: SigningAlgorithm;
+  privateKey: string;
+  publicKey: string;
+}
+
+/**
+ * Loads the asymmetric access token keys from JWT_KEYS_DIR. Every `<kid>.pem`
+ * file in the directory holds one private key (RSA or EC P-256). The key named
+ * by JWT_ACTIVE_KID signs new tokens; the others only verify tokens they
+ * signed earlier and are published in the JWKS until they are removed.
+ *
+ * Without JWT_KEYS_DIR access tokens keep using JWT_ACCESS_SECRET. Once keys
+ * are configured, tokens signed with the secret are only accepted until
+ * JWT_LEGACY_HS256_UNTIL, so sessions survive the switch without leaving the
+ * secret able to forge tokens for good.
+ */
+@Injectable()
+export class JwtKeysService implements OnModuleInit {
+  private keys = new Map<string, SigningKey>();
+  private activeKid: string | null = null;
+  private legacyUntil: number | null = null;
+
+  constructor(private configService: ConfigService) {}
+
+  onModuleInit() {
+    const keysDir = this.configService.get<string>('JWT_KEYS_DIR');
+
+    if (!keysDir) {
+      return;
+    }
+
+    for (const file of readdirSync(keysDir)) {
+      if (extname(file) !== '.pem') {
+        continue;
+      }
+
+      const kid = basename(file, '.pem');
+      const privateKey = createPrivateKey(readFileSync(join(keysDir, file)));
+
+      this.keys.set(kid, {
+        kid,
+        algorithm: this.algorithmFor(privateKey, file),
+        privateKey: privateKey
+          .export({ type: 'pkcs8', format: 'pem' })
+          .toString(),
+        publicKey: createPublicKey(privateKey)
+          .export({ type: 'spki', format: 'pem' })
+          .toString(),
+      });
+    }
+
+    const activeKid = this.configService.get<string>('JWT_ACTIVE_KID');
+
+    if (!activeKid || !this.keys.has(activeKid)) {
+      throw new Error(
+        `JWT_ACTIVE_KID must name one of the keys in ${keysDir} (found: ${[...this.keys.keys()].join(', ') || 'none'})`,
+      );
+    }
+
+    this.activeKid = activeKid;
+
+    const legacyUntil = this.configService.get<string>(
+      'JWT_LEGACY_HS256_UNTIL',
+    );
+
+    if (legacyUntil) {
+      this.legacyUntil = Date.parse(legacyUntil);
+
+      if (Number.isNaN(this.legacyUntil)) {
+        throw new Error(
+          `JWT_LEGACY_HS256_UNTIL must be a date, such as 2024-01-31T12:00:00Z (got: ${legacyUntil})`,
+        );
+      }
+    }
+  }
+
+  isEnabled() {
+    return this.activeKid !== null;
+  }
+
+  // Whether access tokens signed with JWT_ACCESS_SECRET are still valid
+  acceptsLegacyTokens() {
+    return (
+      !this.isEnabled() ||
+      (this.legacyUntil !== null && Date.now() < this.legacyUntil)
+    );
+  }
+
+  getSigningKey() {
+    return this.activeKid ? this.keys.get(this.activeKid)! : null;
+  }
+
+  getKey(kid: string) {
+    return this.keys.get(kid) ?? null;
+  }
+
+  getJwks() {
+    return {
+      keys: [...this.keys.values()].map((key) => ({
+        ...(createPublicKey(key.publicKey).export({
+          format: 'jwk',
+        }) as JsonWebKey),
+        kid: key.kid,
+        alg: key.algorithm,
+        use: 'sig',
+      })),
+    };
+  }
+
+  private algorithmFor(key: KeyObject, file: string): SigningAlgorithm {
+    if (key.asymmetricKeyType === 'rsa') {
+      return 'RS256';
+    }
+
+    if (
+      key.asymmetricKeyType === 'ec' &&
+      key.asymmetricKeyDetails?.namedCurve === 'prime256v1'
+    ) {
+      return 'ES256';
+    }
+
+    throw new Error(
+      `Unsupported JWT signing key ${file}: use an RSA or EC P-256 private key (EdDSA keys are not supported)`,
+    );
+  }
+}
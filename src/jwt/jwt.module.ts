@@ -1,10 +1,13 @@
 import { Module } from '@nestjs/common';
 import { JwtService } from './jwt.service';
 import { JwtModule as NestJwtModule } from '@nestjs/jwt';
+import { JwtKeysService } from './jwt-keys.service';
+import { JwksController } from './jwks.controller';
 
 @Module({
   imports: [NestJwtModule.register({})],
-  providers: [JwtService],
+  controllers: [JwksController],
+  providers: [JwtService, JwtKeysService],
   exports: [JwtService],
 })
 export class JwtModule {}
@@ -1,9 +1,25 @@
 import { Injectable } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { JwtService as NestJwtService } from '@nestjs/jwt';
+import {
+  JsonWebTokenError,
+  JwtService as NestJwtService,
+  JwtVerifyOptions,
+} from '@nestjs/jwt';
+import { randomUUID } from 'crypto';
+import { UserRole } from '../users/entities/user.entity';
+import { JwtKeysService } from './jwt-keys.service';
 
 export interface TokenPayload {
   userId: number;
+  sessionId: number;
+  role: UserRole;
+  tokenVersion: number;
+  // Unix time of the last /auth/reauth, only present on step-up access tokens
+  reauthenticatedAt?: number;
+}
+
+export interface RefreshTokenPayload extends TokenPayload {
+  jti: string;
 }
 
 export interface ActivationPayload {
@@ -20,22 +36,80 @@ export interface EmailUpdatePayload {
   new_email: string;
 }
 
+export interface PasswordResetPayload {
+  userId: number;
+  fingerprint: string;
+}
+
+export interface TwoFactorChallengePayload {
+  userId: number;
+  challengeId: string;
+}
+
+export interface MagicLinkPayload {
+  userId: number;
+  linkId: string;
+}
+
+// What the alert is about: a credential change or a stolen refresh token
+export type SecurityAlertChange = 'email' | 'password' | 'refresh_token_reuse';
+
+export interface SecurityAlertPayload {
+  userId: number;
+  change: SecurityAlertChange;
+  // The address the alert was sent to
+  email: string;
+}
+
+export interface OidcTransactionPayload {
+  provider: string;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  linkUserId?: number;
+}
+
+export interface OidcSignupPayload {
+  provider: string;
+  subject: string;
+  email: string;
+  name: string;
+}
+
 @Injectable()
 export class JwtService {
   constructor(
     private nestJwtService: NestJwtService,
     private configService: ConfigService,
+    private jwtKeysService: JwtKeysService,
   ) {}
 
+  generateAccessToken(payload: TokenPayload): string {
+    const signingKey = this.jwtKeysService.getSigningKey();
+
+    // Access tokens are signed with the active key pair when one is configured,
+    // so other services can verify them through the JWKS endpoint
+    return signingKey
+      ? this.nestJwtService.sign(payload, {
+          privateKey: signingKey.privateKey,
+          algorithm: signingKey.algorithm,
+          keyid: signingKey.kid,
+          expiresIn: this.configService.get('JWT_ACCESS_EXPIRATION'),
+        })
+      : this.nestJwtService.sign(payload, {
+          secret: this.configService.get<string>('JWT_ACCESS_SECRET'),
+          expiresIn: this.configService.get('JWT_ACCESS_EXPIRATION'),
+        });
+  }
+
   generateTokens(payload: TokenPayload): TokenPair {
-    const accessToken = this.nestJwtService.sign(payload, {
-      secret: this.configService.get<string>('JWT_ACCESS_SECRET'),
-      expiresIn: this.configService.get('JWT_ACCESS_EXPIRATION'),
-    });
+    const accessToken = this.generateAccessToken(payload);
 
+    // Every refresh token gets its own id so rotated tokens never repeat
     const refreshToken = this.nestJwtService.sign(payload, {
       secret: this.configService.get<string>('JWT_REFRESH_SECRET'),
       expiresIn: this.configService.get('JWT_REFRESH_EXPIRATION'),
+      jwtid: randomUUID(),
     });
 
     return { accessToken, refreshToken };
@@ -59,13 +133,90 @@ export class JwtService {
     return updateToken;
   }
 
+  generateResetToken(payload: PasswordResetPayload): string {
+    const resetToken = this.nestJwtService.sign(payload, {
+      secret: this.configService.get<string>('JWT_RESET_SECRET'),
+      expiresIn: this.configService.get('JWT_RESET_EXPIRATION'),
+    });
+
+    return resetToken;
+  }
+
+  generateTwoFactorToken(payload: TwoFactorChallengePayload): string {
+    const challengeToken = this.nestJwtService.sign(payload, {
+      secret: this.configService.get<string>('JWT_2FA_SECRET'),
+      expiresIn: this.configService.get('JWT_2FA_EXPIRATION'),
+    });
+
+    return challengeToken;
+  }
+
+  generateMagicLinkToken(payload: MagicLinkPayload): string {
+    const magicLinkToken = this.nestJwtService.sign(payload, {
+      secret: this.configService.get<string>('JWT_MAGIC_LINK_SECRET'),
+      expiresIn: this.configService.get('JWT_MAGIC_LINK_EXPIRATION'),
+    });
+
+    return magicLinkToken;
+  }
+
+  generateSecurityAlertToken(payload: SecurityAlertPayload): string {
+    const alertToken = this.nestJwtService.sign(payload, {
+      secret: this.configService.get<string>('JWT_ALERT_SECRET'),
+      expiresIn: this.configService.get('JWT_ALERT_EXPIRATION'),
+    });
+
+    return alertToken;
+  }
+
+  generateOidcTransactionToken(payload: OidcTransactionPayload): string {
+    return this.nestJwtService.sign(payload, {
+      secret: this.configService.get<string>('JWT_OIDC_SECRET'),
+      expiresIn: '10m',
+      audience: 'oidc-transaction',
+    });
+  }
+
+  generateOidcSignupToken(payload: OidcSignupPayload): string {
+    return this.nestJwtService.sign(payload, {
+      secret: this.configService.get<string>('JWT_OIDC_SECRET'),
+      expiresIn: '30m',
+      audience: 'oidc-signup',
+    });
+  }
+
   async verifyAccessToken(token: string): Promise<TokenPayload> {
+    const decoded = this.nestJwtService.decode<{
+      header?: { kid?: string };
+    } | null>(token, { complete: true });
+    const kid = decoded?.header?.kid;
+
+    if (kid) {
+      const key = this.jwtKeysService.getKey(kid);
+
+      if (!key) {
+        throw new JsonWebTokenError('unknown key id');
+      }
+
+      return this.nestJwtService.verify(token, {
+        publicKey: key.publicKey,
+        algorithms: [key.algorithm],
+      });
+    }
+
+    // Tokens without a kid were signed with the shared secret, either because
+    // no keys are configured or because they were issued before the switch
+    if (!this.jwtKeysService.acceptsLegacyTokens()) {
+      throw new JsonWebTokenError('missing key id');
+    }
+
     return this.nestJwtService.verify(token, {
       secret: this.configService.get<string>('JWT_ACCESS_SECRET'),
+      algorithms: ['HS256'],
     });
   }
 
-  async verifyRefreshToken(token: string): Promise<TokenPayload> {
+  async verifyRefreshToken(token: string): Promise<RefreshTokenPayload> {
     return this.nestJwtService.verify(token, {
       secret: this.configService.get<string>('JWT_REFRESH_SECRET'),
     });
@@ -82,4 +233,57 @@ export class JwtService {
       secret: this.configService.get<string>('JWT_UPDATE_SECRET'),
     });
   }
+
+  async verifyResetToken(token: string): Promise<PasswordResetPayload> {
+    return this.nestJwtService.verify(token, {
+      secret: this.configService.get<string>('JWT_RESET_SECRET'),
+    });
+  }
+
+  async verifyTwoFactorToken(
+    token: string,
+  ): Promise<TwoFactorChallengePayload> {
+    return this.nestJwtService.verify(token, {
+      secret: this.configService.get<string>('JWT_2FA_SECRET'),
+    });
+  }
+
+  async verifyMagicLinkToken(token: string): Promise<MagicLinkPayload> {
+    return this.nestJwtService.verify(token, {
+      secret: this.configService.get<string>('JWT_MAGIC_LINK_SECRET'),
+    });
+  }
+
+  async verifySecurityAlertToken(
+    token: string,
+  ): Promise<SecurityAlertPayload & { iat: number }> {
+    return this.nestJwtService.verify(token, {
+      secret: this.configService.get<string>('JWT_ALERT_SECRET'),
+    });
+  }
+
+  async verifyOidcTransactionToken(
+    token: string,
+  ): Promise<OidcTransactionPayload> {
+    return this.nestJwtService.verify(token, {
+      secret: this.configService.get<string>('JWT_OIDC_SECRET'),
+      audience: 'oidc-transaction',
+    });
+  }
+
+  async verifyOidcSignupToken(token: string): Promise<OidcSignupPayload> {
+    return this.nestJwtService.verify(token, {
+      secret: this.configService.get<string>('JWT_OIDC_SECRET'),
+      audience: 'oidc-signup',
+    });
+  }
+
+  // For tokens signed by someone else, such as ID tokens from an OIDC issuer
+  async verifyWithPublicKey<T extends object>(
+    token: string,
+    publicKey: string,
+    options: Omit<JwtVerifyOptions, 'secret' | 'publicKey'>,
+  ): Promise<T> {
+    return this.nestJwtService.verify<T>(token, { ...options, publicKey });
+  }
 }
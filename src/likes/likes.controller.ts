@@ -21,7 +21,10 @@ import {
 } from '@nestjs/swagger';
 import { LikesService } from './likes.service';
 import { JwtAuthGuard } from '../guards/jwt-auth.guard';
+import { OptionalJwtAuthGuard } from '../guards/optional-jwt-auth.guard';
 import { CurrentUser } from '../decorators/current-user.decorator';
+import { Scopes } from '../decorators/scopes.decorator';
+import { ApiTokenScope } from '../api-tokens/entities/api-token.entity';
 
 @ApiTags('Likes')
 @Controller('likes')
@@ -30,6 +33,7 @@ export class LikesController {
 
   @Post(':postId')
   @UseGuards(JwtAuthGuard)
+  @Scopes(ApiTokenScope.LIKES_WRITE)
   @ApiBearerAuth('JWT-auth')
   @HttpCode(HttpStatus.CREATED)
   @ApiOperation({
@@ -93,6 +97,7 @@ export class LikesController {
 
   @Delete(':postId')
   @UseGuards(JwtAuthGuard)
+  @Scopes(ApiTokenScope.LIKES_WRITE)
   @ApiBearerAuth('JWT-auth')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
@@ -144,11 +149,14 @@ export class LikesController {
   }
 
   @Get('post/:postId')
+  @UseGuards(OptionalJwtAuthGuard)
+  @Scopes(ApiTokenScope.READ)
+  @ApiBearerAuth('JWT-auth')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
     summary: 'Get users who liked a post',
     description:
-      'Get a paginated list of users (10 per page) who have liked a specific post. Results are ordered by like date (newest first).',
+      'Get a paginated list of users (10 per page) who have liked a specific post. Results are ordered by like date (newest first). Posts of private accounts are only visible to the owner and approved followers, so authentication is optional.',
   })
   @ApiParam({
     name: 'postId',
@@ -172,6 +180,7 @@ export class LikesController {
               id: 2,
               username: 'alice_wonder',
               name: 'Alice Wonder',
+              avatar: null,
             },
             liked_at: '2024-01-25T16:00:00.000Z',
           },
@@ -180,6 +189,7 @@ export class LikesController {
               id: 3,
               username: 'bob_builder',
               name: 'Bob Builder',
+              avatar: null,
             },
             liked_at: '2024-01-25T15:30:00.000Z',
           },
@@ -214,6 +224,7 @@ export class LikesController {
   })
   async getLikesForPost(
     @Param('postId', ParseIntPipe) postId: number,
+    @CurrentUser() viewerId: number | undefined,
     @Query('page') page?: string,
   ) {
     if (page && !/^\d+$/.test(page)) {
@@ -223,15 +234,19 @@ export class LikesController {
     return this.likesService.getLikesForPost({
       postId,
       page: parsedPage,
+      viewerId,
     });
   }
 
   @Get('user/:userId')
+  @UseGuards(OptionalJwtAuthGuard)
+  @Scopes(ApiTokenScope.READ)
+  @ApiBearerAuth('JWT-auth')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
     summary: 'Get posts liked by a user',
     description:
-      'Get a paginated list of posts (10 per page) that a specific user has liked. Results are ordered by like date (newest first).',
+      'Get a paginated list of posts (10 per page) that a specific user has liked. Results are ordered by like date (newest first). Likes of a private account are only shown to the owner and approved followers, and posts by private accounts the caller does not follow are left out. Authentication is optional.',
   })
   @ApiParam({
     name: 'userId',
@@ -260,6 +275,7 @@ export class LikesController {
             user: {
               id: 4,
               username: 'carol_king',
+              avatar: null,
             },
             liked_at: '2024-01-25T19:00:00.000Z',
           },
@@ -273,6 +289,7 @@ export class LikesController {
             user: {
               id: 2,
               username: 'alice_wonder',
+              avatar: null,
             },
             liked_at: '2024-01-25T14:00:00.000Z',
           },
@@ -294,6 +311,18 @@ export class LikesController {
       },
     },
   })
+  @ApiResponse({
+    status: 403,
+    description:
+      'Private account - only the owner and approved followers can see its likes. Also returned with "You cannot view this account" when either user has blocked the other',
+    schema: {
+      example: {
+        statusCode: 403,
+        message: 'This account is private',
+        error: 'Forbidden',
+      },
+    },
+  })
   @ApiResponse({
     status: 400,
     description: 'Bad Request - Invalid query parameters',
@@ -307,6 +336,7 @@ export class LikesController {
   })
   async getLikedPostsForUser(
     @Param('userId', ParseIntPipe) userId: number,
+    @CurrentUser() viewerId: number | undefined,
     @Query('page') page?: string,
   ) {
     if (page && !/^\d+$/.test(page)) {
@@ -316,11 +346,13 @@ export class LikesController {
     return this.likesService.getLikedPostsForUser({
       userId,
       page: parsedPage,
+      viewerId,
     });
   }
 
   @Get('status/:postId')
   @UseGuards(JwtAuthGuard)
+  @Scopes(ApiTokenScope.READ)
   @ApiBearerAuth('JWT-auth')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
@@ -362,10 +394,14 @@ export class LikesController {
   }
 
   @Get('count/:postId')
+  @UseGuards(OptionalJwtAuthGuard)
+  @Scopes(ApiTokenScope.READ)
+  @ApiBearerAuth('JWT-auth')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
     summary: 'Get like count for a post',
-    description: 'Get the total number of likes for a specific post.',
+    description:
+      'Get the total number of likes for a specific post. Posts of private accounts are only visible to the owner and approved followers, so authentication is optional.',
   })
   @ApiParam({
     name: 'postId',
@@ -392,8 +428,11 @@ export class LikesController {
       },
     },
   })
-  async getLikeCount(@Param('postId', ParseIntPipe) postId: number) {
-    const count = await this.likesService.getLikeCount(postId);
+  async getLikeCount(
+    @Param('postId', ParseIntPipe) postId: number,
+    @CurrentUser() viewerId: number | undefined,
+  ) {
+    const count = await this.likesService.getLikeCount(postId, viewerId);
     return { count };
   }
 }
@@ -4,10 +4,20 @@ import { LikesController } from './likes.controller';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { Like } from './entities/like.entity';
 import { JwtModule } from '../jwt/jwt.module';
+import { ApiTokensModule } from '../api-tokens/api-tokens.module';
+import { SessionsModule } from '../sessions/sessions.module';
 import { PostModule } from '../post/post.module';
+import { UsersModule } from '../users/users.module';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([Like]), JwtModule, PostModule],
+  imports: [
+    TypeOrmModule.forFeature([Like]),
+    JwtModule,
+    PostModule,
+    ApiTokensModule,
+    SessionsModule,
+    UsersModule,
+  ],
   controllers: [LikesController],
   providers: [LikesService],
 })
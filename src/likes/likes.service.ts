@@ -5,21 +5,25 @@ import {
   NotFoundException,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { IsNull, Repository } from 'typeorm';
 import { Like } from './entities/like.entity';
 import { errorHandler } from '../utils/error_handler';
 import { User } from '../users/entities/user.entity';
 import { Post } from '../post/entities/post.entity';
 import { PostService } from '../post/post.service';
+import { UsersService } from '../users/users.service';
+import { visibleAuthors, visibleUsers } from '../users/visible-authors';
 
 interface GetLikesPayload {
   postId: number;
   page?: number;
+  viewerId?: number;
 }
 
 interface GetLikedPostsPayload {
   userId: number;
   page?: number;
+  viewerId?: number;
 }
 
 @Injectable()
@@ -28,11 +32,13 @@ export class LikesService {
     @InjectRepository(Like)
     private readonly likeRepo: Repository<Like>,
     private postService: PostService,
+    private usersService: UsersService,
   ) {}
 
   async like(currentUserId: number, postId: number) {
     try {
-      const post = await this.postService.findOne(postId);
+      // Posts are not found when there is a block between the two users
+      const post = await this.postService.findOne(postId, currentUserId);
       if (!post) {
         throw new NotFoundException('Post not found');
       }
@@ -79,17 +85,20 @@ export class LikesService {
 
   async getLikesForPost(payload: GetLikesPayload) {
     try {
-      const { postId, page = 1 } = payload;
+      const { postId, page = 1, viewerId } = payload;
       const take = 10;
       const skip = Math.max(0, (page - 1) * take);
 
       const [likes, total] = await this.likeRepo.findAndCount({
-        where: { post: { id: postId } as Post },
+        where: visibleAuthors(viewerId).map((author) => ({
+          post: { id: postId, user: author },
+          user: visibleUsers(viewerId),
+        })),
         relations: ['user'],
         select: {
           id: true,
           created_at: true,
-          user: { id: true, username: true, name: true },
+          user: { id: true, username: true, name: true, avatar: true },
         },
         order: { created_at: 'DESC' },
         skip,
@@ -112,12 +121,18 @@ export class LikesService {
 
   async getLikedPostsForUser(payload: GetLikedPostsPayload) {
     try {
-      const { userId, page = 1 } = payload;
+      const { userId, page = 1, viewerId } = payload;
       const take = 10;
       const skip = Math.max(0, (page - 1) * take);
 
+      await this.usersService.assertContentVisible(userId, viewerId);
+
+      // Posts by private accounts the viewer does not follow are left out
       const [likes, total] = await this.likeRepo.findAndCount({
-        where: { user: { id: userId } as User },
+        where: visibleAuthors(viewerId).map((author) => ({
+          user: { id: userId, deactivated_at: IsNull() },
+          post: { user: author },
+        })),
         relations: ['post', 'post.user'],
         select: {
           id: true,
@@ -129,7 +144,7 @@ export class LikesService {
             viewed_times: true,
             created_at: true,
             updated_at: true,
-            user: { id: true, username: true },
+            user: { id: true, username: true, avatar: true },
           },
         },
         order: { created_at: 'DESC' },
@@ -164,15 +179,18 @@ export class LikesService {
     }
   }
 
-  async getLikeCount(postId: number) {
+  async getLikeCount(postId: number, viewerId?: number) {
     try {
-      const post = await this.postService.findOne(postId);
+      const post = await this.postService.findOne(postId, viewerId);
       if (!post) {
         throw new NotFoundException('Post not found');
       }
 
       return await this.likeRepo.count({
-        where: { post: { id: postId } as Post },
+        where: {
+          post: { id: postId } as Post,
+          user: { deactivated_at: IsNull() },
+        },
       });
     } catch (error) {
       errorHandler(error, 'LikesService.getLikeCount');
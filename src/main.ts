@@ -23,6 +23,30 @@ async function bootstrap() {
 
   app.use(cookieParser());
 
+  const configService = app.get(ConfigService);
+  const trustProxy = configService.get<string>('TRUST_PROXY');
+
+  // Behind a reverse proxy req.ip is the proxy's address unless Express is
+  // told which hops to trust; login lockouts and the security log rely on it
+  if (trustProxy === 'true') {
+    app.set('trust proxy', true);
+  } else if (trustProxy && trustProxy !== 'false') {
+    app.set(
+      'trust proxy',
+      /^\d+$/.test(trustProxy) ? Number(trustProxy) : trustProxy,
+    );
+  }
+
+  const corsOrigins = configService.get<string>('CORS_ORIGINS');
+
+  // Needed when the frontend is served from another origin and sends cookies
+  if (corsOrigins) {
+    app.enableCors({
+      origin: corsOrigins.split(',').map((origin) => origin.trim()),
+      credentials: true,
+    });
+  }
+
   // Swagger Configuration
   const config = new DocumentBuilder()
     .setTitle('PostHub API')
@@ -64,7 +88,8 @@ Swagger displays only one response per status code, so maybe some responses may
         scheme: 'bearer',
         bearerFormat: 'JWT',
         name: 'JWT',
-        description: 'Enter your JWT access token (obtained from /auth/login)',
+        description:
+          'Enter your JWT access token (obtained from /auth/login) or a personal access token (created at /api-tokens)',
         in: 'header',
       },
       'JWT-auth',
@@ -72,7 +97,7 @@ Swagger displays only one response per status code, so maybe some responses may
     .addCookieAuth('refreshToken', {
       type: 'apiKey',
       in: 'cookie',
-      name: 'refreshToken',
+      name: configService.get<string>('REFRESH_COOKIE_NAME', 'refreshToken'),
       description: 'Refresh token (automatically set after login)',
     })
     .addTag(
@@ -84,6 +109,7 @@ Swagger displays only one response per status code, so maybe some responses may
     .addTag('Comments', 'Comment on posts')
     .addTag('Likes', 'Like and unlike posts')
     .addTag('Follows', 'Follow and unfollow users')
+    .addTag('API Tokens', 'Personal access tokens for bots and integrations')
     .build();
 
   const document = SwaggerModule.createDocument(app, config);
@@ -118,7 +144,6 @@ Swagger displays only one response per status code, so maybe some responses may
     `,
   });
 
-  const configService = app.get(ConfigService);
   const PORT = configService.get<number>('PORT', 3000);
   const NODE_ENV = configService.get<string>('NODE_ENV', 'development');
   const THE_URL = configService.get<string>('THE_URL');
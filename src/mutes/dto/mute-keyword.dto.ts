@@ -0,0 +1,19 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class MuteKeywordDto {
+  @ApiProperty({
+    description:
+      'Word or phrase to hide. It matches whole words only and ignores case.',
+    example: 'spoilers',
+    maxLength: 100,
+  })
+  @Transform(({ value }) =>
+    typeof value === 'string' ? value.trim().replace(/\s+/g, ' ') : value,
+  )
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(100)
+  keyword: string;
+}
@@ -0,0 +1,17 @@
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class MuteUserDto {
+  @ApiPropertyOptional({
+    description:
+      'Hours until the mute ends on its own (omit to mute until you unmute)',
+    example: 24,
+    minimum: 1,
+    maximum: 8760,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(8760)
+  expires_in_hours?: number;
+}
@@ -0,0 +1,30 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+
+@Entity('muted_keywords')
+@Index(['user', 'keyword'], { unique: true })
+export class MutedKeyword {
+  @PrimaryGeneratedColumn('increment')
+  id: number;
+
+  @ManyToOne(() => User, { nullable: false, onDelete: 'CASCADE' })
+  user: User;
+
+  // Lowercased, with runs of whitespace collapsed to one space
+  @Column({ type: 'varchar', length: 100, nullable: false })
+  keyword: string;
+
+  // Postgres regular expression matching the keyword as whole words
+  @Column({ type: 'varchar', length: 1000, nullable: false, select: false })
+  pattern: string;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  created_at: Date;
+}
@@ -0,0 +1,31 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+
+// Hides the posts and comments of an account from the muter only; the muted
+// user is not told and can still see and interact with the muter
+@Entity('muted_users')
+@Index(['muter', 'muted'], { unique: true })
+export class MutedUser {
+  @PrimaryGeneratedColumn('increment')
+  id: number;
+
+  @ManyToOne(() => User, { nullable: false, onDelete: 'CASCADE' })
+  muter: User;
+
+  @ManyToOne(() => User, { nullable: false, onDelete: 'CASCADE' })
+  muted: User;
+
+  // null mutes until the user is unmuted
+  @Column({ type: 'timestamptz', nullable: true })
+  expires_at: Date | null;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  created_at: Date;
+}
@@ -0,0 +1,27 @@
+import { Raw } from 'typeorm';
+
+// Letters, digits and underscores in any script make up words
+const NOT_WORD_CHAR = '[^[:alnum:]_]';
+
+/**
+ * Builds the pattern stored for a muted keyword. It matches the keyword or
+ * phrase only as whole words, so "cat" hides "Cat pics!" but not "catalog",
+ * and the words of a phrase may be separated by any whitespace. Posts and
+ * comments are matched case-insensitively.
+ */
+export function keywordPattern(keyword: string) {
+  const words = keyword
+    .split(' ')
+    .map((word) => word.replace(/[\\^$.*+?()[\]{}|]/g, '\\$&'));
+
+  return `(^|${NOT_WORD_CHAR})${words.join('\\s+')}($|${NOT_WORD_CHAR})`;
+}
+
+// Condition on a text column leaving out anything with one of the viewer's muted keywords
+export function withoutMutedKeywords(viewerId: number) {
+  return Raw(
+    (alias) =>
+      `NOT EXISTS (SELECT 1 FROM muted_keywords WHERE muted_keywords."userId" = :viewerId AND ${alias} ~* muted_keywords.pattern)`,
+    { viewerId },
+  );
+}
@@ -0,0 +1,526 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  ParseIntPipe,
+  HttpCode,
+  HttpStatus,
+  BadRequestException,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiQuery,
+  ApiParam,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { MutesService } from './mutes.service';
+import { MuteUserDto } from './dto/mute-user.dto';
+import { MuteKeywordDto } from './dto/mute-keyword.dto';
+import { JwtAuthGuard } from '../guards/jwt-auth.guard';
+import { CurrentUser } from '../decorators/current-user.decorator';
+import { Scopes } from '../decorators/scopes.decorator';
+import { ApiTokenScope } from '../api-tokens/entities/api-token.entity';
+
+@ApiTags('Mutes')
+@Controller('mutes')
+export class MutesController {
+  constructor(private readonly mutesService: MutesService) {}
+
+  @Get('users')
+  @UseGuards(JwtAuthGuard)
+  @Scopes(ApiTokenScope.MUTES_READ)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Get muted users',
+    description:
+      'Get a paginated list (20 per page) of the users the current user has muted, most recently muted first. Expired mutes are not included.',
+  })
+  @ApiQuery({
+    name: 'page',
+    description: 'Page number (default: 1)',
+    required: false,
+    example: 1,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Muted users retrieved successfully',
+    schema: {
+      example: {
+        users: [
+          {
+            id: 5,
+            name: 'Loud Larry',
+            username: 'loud_larry',
+            avatar: null,
+            expires_at: null,
+            muted_at: '2024-01-27T18:20:00.000Z',
+          },
+        ],
+        total: 1,
+        page: 1,
+        totalPages: 1,
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad Request - Invalid query parameters',
+    schema: {
+      example: {
+        statusCode: 400,
+        message: 'page must be a valid integer',
+        error: 'Bad Request',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing access token',
+    schema: {
+      example: {
+        statusCode: 401,
+        message: 'Access token not found',
+        error: 'Unauthorized',
+      },
+    },
+  })
+  async getMutedUsers(
+    @CurrentUser() userId: number,
+    @Query('page') page?: string,
+  ) {
+    if (page && !/^\d+$/.test(page)) {
+      throw new BadRequestException('page must be a valid integer');
+    }
+    const parsedPage = page ? parseInt(page, 10) : 1;
+    return this.mutesService.getMutedUsers(userId, parsedPage);
+  }
+
+  @Post('users/:id')
+  @UseGuards(JwtAuthGuard)
+  @Scopes(ApiTokenScope.MUTES_WRITE)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Mute a user',
+    description:
+      "Hide the posts and comments of a user from the current user's post and comment listings, for a number of hours or until unmuted. Posts are still shown when browsing the muted user's own posts. The muted user is not notified and nothing else changes for them.",
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID of the muted user',
+    example: 5,
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'User muted successfully',
+    schema: {
+      example: {
+        user: { id: 5 },
+        expires_at: '2024-01-28T18:20:00.000Z',
+        muted_at: '2024-01-27T18:20:00.000Z',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad Request - Cannot mute yourself',
+    schema: {
+      example: {
+        statusCode: 400,
+        message: 'You cannot mute yourself',
+        error: 'Bad Request',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing access token',
+    schema: {
+      example: {
+        statusCode: 401,
+        message: 'Access token not found',
+        error: 'Unauthorized',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'User to mute not found',
+    schema: {
+      example: {
+        statusCode: 404,
+        message: 'User not found',
+        error: 'Not Found',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Conflict - User already muted',
+    schema: {
+      example: {
+        statusCode: 409,
+        message: 'You have already muted this user',
+        error: 'Conflict',
+      },
+    },
+  })
+  async muteUser(
+    @CurrentUser() userId: number,
+    @Param('id', ParseIntPipe) mutedId: number,
+    @Body() muteUserDto: MuteUserDto,
+  ) {
+    return this.mutesService.muteUser(userId, mutedId, muteUserDto);
+  }
+
+  @Patch('users/:id')
+  @UseGuards(JwtAuthGuard)
+  @Scopes(ApiTokenScope.MUTES_WRITE)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Change how long a user stays muted',
+    description:
+      'Set a new duration for an active mute, counted from now. Omit expires_in_hours to keep the user muted until unmuted.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID of the muted user',
+    example: 5,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Mute updated successfully',
+    schema: {
+      example: {
+        user: { id: 5 },
+        expires_at: '2024-01-28T18:20:00.000Z',
+        muted_at: '2024-01-27T18:20:00.000Z',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing access token',
+    schema: {
+      example: {
+        statusCode: 401,
+        message: 'Access token not found',
+        error: 'Unauthorized',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'User is not muted',
+    schema: {
+      example: {
+        statusCode: 404,
+        message: 'You have not muted this user',
+        error: 'Not Found',
+      },
+    },
+  })
+  async updateMutedUser(
+    @CurrentUser() userId: number,
+    @Param('id', ParseIntPipe) mutedId: number,
+    @Body() muteUserDto: MuteUserDto,
+  ) {
+    return this.mutesService.updateMutedUser(userId, mutedId, muteUserDto);
+  }
+
+  @Delete('users/:id')
+  @UseGuards(JwtAuthGuard)
+  @Scopes(ApiTokenScope.MUTES_WRITE)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Unmute a user',
+    description: 'End a mute before it expires.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID of the muted user',
+    example: 5,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'User unmuted successfully',
+    schema: {
+      example: {
+        message: 'User unmuted',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing access token',
+    schema: {
+      example: {
+        statusCode: 401,
+        message: 'Access token not found',
+        error: 'Unauthorized',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'User is not muted',
+    schema: {
+      example: {
+        statusCode: 404,
+        message: 'You have not muted this user',
+        error: 'Not Found',
+      },
+    },
+  })
+  async unmuteUser(
+    @CurrentUser() userId: number,
+    @Param('id', ParseIntPipe) mutedId: number,
+  ) {
+    return this.mutesService.unmuteUser(userId, mutedId);
+  }
+
+  @Get('keywords')
+  @UseGuards(JwtAuthGuard)
+  @Scopes(ApiTokenScope.MUTES_READ)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Get muted keywords',
+    description: 'Get all keywords and phrases the current user has muted.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Muted keywords retrieved successfully',
+    schema: {
+      example: {
+        keywords: [
+          {
+            id: 2,
+            keyword: 'spoilers',
+            created_at: '2024-01-27T18:20:00.000Z',
+          },
+          {
+            id: 1,
+            keyword: 'season finale',
+            created_at: '2024-01-20T09:00:00.000Z',
+          },
+        ],
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing access token',
+    schema: {
+      example: {
+        statusCode: 401,
+        message: 'Access token not found',
+        error: 'Unauthorized',
+      },
+    },
+  })
+  async getKeywords(@CurrentUser() userId: number) {
+    return this.mutesService.getKeywords(userId);
+  }
+
+  @Post('keywords')
+  @UseGuards(JwtAuthGuard)
+  @Scopes(ApiTokenScope.MUTES_WRITE)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Mute a keyword or phrase',
+    description:
+      'Hide posts and comments containing a word or phrase from the current user\'s post and comment listings. Matching ignores case and only counts whole words, so "cat" hides "Cat pics!" but not "catalog". The user\'s own posts and comments are never hidden. Up to 100 keywords.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Keyword muted successfully',
+    schema: {
+      example: {
+        id: 2,
+        keyword: 'spoilers',
+        created_at: '2024-01-27T18:20:00.000Z',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad Request - Invalid keyword or too many muted keywords',
+    schema: {
+      example: {
+        statusCode: 400,
+        message: 'You can mute at most 100 keywords',
+        error: 'Bad Request',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing access token',
+    schema: {
+      example: {
+        statusCode: 401,
+        message: 'Access token not found',
+        error: 'Unauthorized',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Conflict - Keyword already muted',
+    schema: {
+      example: {
+        statusCode: 409,
+        message: 'You have already muted this keyword',
+        error: 'Conflict',
+      },
+    },
+  })
+  async addKeyword(
+    @CurrentUser() userId: number,
+    @Body() muteKeywordDto: MuteKeywordDto,
+  ) {
+    return this.mutesService.addKeyword(userId, muteKeywordDto);
+  }
+
+  @Patch('keywords/:id')
+  @UseGuards(JwtAuthGuard)
+  @Scopes(ApiTokenScope.MUTES_WRITE)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Change a muted keyword',
+    description: 'Replace the word or phrase of a muted keyword.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID of the muted keyword',
+    example: 2,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Muted keyword updated successfully',
+    schema: {
+      example: {
+        id: 2,
+        keyword: 'spoilers',
+        created_at: '2024-01-27T18:20:00.000Z',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad Request - Invalid keyword',
+    schema: {
+      example: {
+        statusCode: 400,
+        message: 'keyword should not be empty',
+        error: 'Bad Request',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing access token',
+    schema: {
+      example: {
+        statusCode: 401,
+        message: 'Access token not found',
+        error: 'Unauthorized',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Muted keyword not found',
+    schema: {
+      example: {
+        statusCode: 404,
+        message: 'Muted keyword not found',
+        error: 'Not Found',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Conflict - Keyword already muted',
+    schema: {
+      example: {
+        statusCode: 409,
+        message: 'You have already muted this keyword',
+        error: 'Conflict',
+      },
+    },
+  })
+  async updateKeyword(
+    @CurrentUser() userId: number,
+    @Param('id', ParseIntPipe) id: number,
+    @Body() muteKeywordDto: MuteKeywordDto,
+  ) {
+    return this.mutesService.updateKeyword(id, muteKeywordDto, userId);
+  }
+
+  @Delete('keywords/:id')
+  @UseGuards(JwtAuthGuard)
+  @Scopes(ApiTokenScope.MUTES_WRITE)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Unmute a keyword',
+    description: 'Stop hiding posts and comments with a muted keyword.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID of the muted keyword',
+    example: 2,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Keyword unmuted successfully',
+    schema: {
+      example: {
+        message: 'Keyword unmuted',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing access token',
+    schema: {
+      example: {
+        statusCode: 401,
+        message: 'Access token not found',
+        error: 'Unauthorized',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Muted keyword not found',
+    schema: {
+      example: {
+        statusCode: 404,
+        message: 'Muted keyword not found',
+        error: 'Not Found',
+      },
+    },
+  })
+  async removeKeyword(
+    @CurrentUser() userId: number,
+    @Param('id', ParseIntPipe) id: number,
+  ) {
+    return this.mutesService.removeKeyword(id, userId);
+  }
+}
@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { MutesService } from './mutes.service';
+import { MutesController } from './mutes.controller';
+import { MutedUser } from './entities/muted-user.entity';
+import { MutedKeyword } from './entities/muted-keyword.entity';
+import { UsersModule } from '../users/users.module';
+import { JwtModule } from '../jwt/jwt.module';
+import { ApiTokensModule } from '../api-tokens/api-tokens.module';
+import { SessionsModule } from '../sessions/sessions.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([MutedUser, MutedKeyword]),
+    UsersModule,
+    JwtModule,
+    ApiTokensModule,
+    SessionsModule,
+  ],
+  controllers: [MutesController],
+  providers: [MutesService],
+  exports: [MutesService],
+})
+export class MutesModule {}
@@ -0,0 +1,283 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, LessThanOrEqual, MoreThan, Repository } from 'typeorm';
+import { MutedUser } from './entities/muted-user.entity';
+import { MutedKeyword } from './entities/muted-keyword.entity';
+import { MuteUserDto } from './dto/mute-user.dto';
+import { MuteKeywordDto } from './dto/mute-keyword.dto';
+import { keywordPattern } from './muted-keywords';
+import { UsersService } from '../users/users.service';
+import { User } from '../users/entities/user.entity';
+import { errorHandler } from '../utils/error_handler';
+
+// Every post and comment in a listing is checked against all of them
+export const MAX_MUTED_KEYWORDS = 100;
+
+@Injectable()
+export class MutesService {
+  constructor(
+    @InjectRepository(MutedUser)
+    private readonly mutedUserRepo: Repository<MutedUser>,
+    @InjectRepository(MutedKeyword)
+    private readonly mutedKeywordRepo: Repository<MutedKeyword>,
+    private usersService: UsersService,
+  ) {}
+
+  async muteUser(userId: number, mutedId: number, muteUserDto: MuteUserDto) {
+    try {
+      if (userId === mutedId) {
+        throw new BadRequestException('You cannot mute yourself');
+      }
+
+      if (!(await this.usersService.existsBy(mutedId))) {
+        throw new NotFoundException('User not found');
+      }
+
+      // An expired mute is replaced rather than reported as a conflict
+      await this.mutedUserRepo.delete({
+        muter: { id: userId },
+        muted: { id: mutedId },
+        expires_at: LessThanOrEqual(new Date()),
+      });
+
+      const mute = this.mutedUserRepo.create({
+        muter: { id: userId } as User,
+        muted: { id: mutedId } as User,
+        expires_at: this.expiresAt(muteUserDto),
+      });
+
+      const saved = await this.mutedUserRepo.save(mute);
+
+      return {
+        user: { id: mutedId },
+        expires_at: saved.expires_at,
+        muted_at: saved.created_at,
+      };
+    } catch (error) {
+      if (error.code === '23505') {
+        throw new ConflictException('You have already muted this user');
+      }
+
+      errorHandler(error, 'MutesService.muteUser');
+    }
+  }
+
+  async updateMutedUser(
+    userId: number,
+    mutedId: number,
+    muteUserDto: MuteUserDto,
+  ) {
+    try {
+      const mute = await this.findActiveMute(userId, mutedId);
+
+      mute.expires_at = this.expiresAt(muteUserDto);
+      await this.mutedUserRepo.save(mute);
+
+      return {
+        user: { id: mutedId },
+        expires_at: mute.expires_at,
+        muted_at: mute.created_at,
+      };
+    } catch (error) {
+      errorHandler(error, 'MutesService.updateMutedUser');
+    }
+  }
+
+  async unmuteUser(userId: number, mutedId: number) {
+    try {
+      const mute = await this.findActiveMute(userId, mutedId);
+
+      await this.mutedUserRepo.remove(mute);
+
+      return { message: 'User unmuted' };
+    } catch (error) {
+      errorHandler(error, 'MutesService.unmuteUser');
+    }
+  }
+
+  // Mutes that have not expired yet, most recent first
+  async getMutedUsers(userId: number, page = 1) {
+    try {
+      const take = 20;
+      const skip = (Math.max(1, page) - 1) * take;
+
+      const [mutes, total] = await this.mutedUserRepo.findAndCount({
+        where: [
+          {
+            muter: { id: userId },
+            muted: { deactivated_at: IsNull() },
+            expires_at: IsNull(),
+          },
+          {
+            muter: { id: userId },
+            muted: { deactivated_at: IsNull() },
+            expires_at: MoreThan(new Date()),
+          },
+        ],
+        relations: ['muted'],
+        select: {
+          id: true,
+          expires_at: true,
+          created_at: true,
+          muted: { id: true, name: true, username: true, avatar: true },
+        },
+        order: { created_at: 'DESC' },
+        skip,
+        take,
+      });
+
+      return {
+        users: mutes.map((mute) => ({
+          ...mute.muted,
+          expires_at: mute.expires_at,
+          muted_at: mute.created_at,
+        })),
+        total,
+        page: Math.max(1, page),
+        totalPages: Math.ceil(total / take),
+      };
+    } catch (error) {
+      errorHandler(error, 'MutesService.getMutedUsers');
+    }
+  }
+
+  async addKeyword(userId: number, muteKeywordDto: MuteKeywordDto) {
+    try {
+      const count = await this.mutedKeywordRepo.countBy({
+        user: { id: userId },
+      });
+
+      if (count >= MAX_MUTED_KEYWORDS) {
+        throw new BadRequestException(
+          `You can mute at most ${MAX_MUTED_KEYWORDS} keywords`,
+        );
+      }
+
+      const keyword = muteKeywordDto.keyword.toLowerCase();
+      const mutedKeyword = this.mutedKeywordRepo.create({
+        user: { id: userId } as User,
+        keyword,
+        pattern: keywordPattern(keyword),
+      });
+
+      const saved = await this.mutedKeywordRepo.save(mutedKeyword);
+
+      return {
+        id: saved.id,
+        keyword: saved.keyword,
+        created_at: saved.created_at,
+      };
+    } catch (error) {
+      if (error.code === '23505') {
+        throw new ConflictException('You have already muted this keyword');
+      }
+
+      errorHandler(error, 'MutesService.addKeyword');
+    }
+  }
+
+  async updateKeyword(
+    id: number,
+    muteKeywordDto: MuteKeywordDto,
+    userId: number,
+  ) {
+    try {
+      const mutedKeyword = await this.mutedKeywordRepo.findOne({
+        where: { id, user: { id: userId } },
+      });
+
+      if (!mutedKeyword) {
+        throw new NotFoundException('Muted keyword not found');
+      }
+
+      mutedKeyword.keyword = muteKeywordDto.keyword.toLowerCase();
+      mutedKeyword.pattern = keywordPattern(mutedKeyword.keyword);
+      await this.mutedKeywordRepo.save(mutedKeyword);
+
+      return {
+        id: mutedKeyword.id,
+        keyword: mutedKeyword.keyword,
+        created_at: mutedKeyword.created_at,
+      };
+    } catch (error) {
+      if (error.code === '23505') {
+        throw new ConflictException('You have already muted this keyword');
+      }
+
+      errorHandler(error, 'MutesService.updateKeyword');
+    }
+  }
+
+  async removeKeyword(id: number, userId: number) {
+    try {
+      const deleteRes = await this.mutedKeywordRepo.delete({
+        id,
+        user: { id: userId },
+      });
+
+      if (deleteRes.affected === 0) {
+        throw new NotFoundException('Muted keyword not found');
+      }
+
+      return { message: 'Keyword unmuted' };
+    } catch (error) {
+      errorHandler(error, 'MutesService.removeKeyword');
+    }
+  }
+
+  async getKeywords(userId: number) {
+    try {
+      const keywords = await this.mutedKeywordRepo.find({
+        where: { user: { id: userId } },
+        select: { id: true, keyword: true, created_at: true },
+        order: { created_at: 'DESC' },
+      });
+
+      return { keywords };
+    } catch (error) {
+      errorHandler(error, 'MutesService.getKeywords');
+    }
+  }
+
+  async deleteExpiredMutes() {
+    try {
+      const result = await this.mutedUserRepo.delete({
+        expires_at: LessThanOrEqual(new Date()),
+      });
+
+      return result.affected || 0;
+    } catch (error) {
+      errorHandler(error, 'MutesService.deleteExpiredMutes');
+    }
+  }
+
+  private async findActiveMute(userId: number, mutedId: number) {
+    const mute = await this.mutedUserRepo.findOne({
+      where: [
+        { muter: { id: userId }, muted: { id: mutedId }, expires_at: IsNull() },
+        {
+          muter: { id: userId },
+          muted: { id: mutedId },
+          expires_at: MoreThan(new Date()),
+        },
+      ],
+    });
+
+    if (!mute) {
+      throw new NotFoundException('You have not muted this user');
+    }
+
+    return mute;
+  }
+
+  private expiresAt(muteUserDto: MuteUserDto) {
+    return muteUserDto.expires_in_hours
+      ? new Date(Date.now() + muteUserDto.expires_in_hours * 60 * 60 * 1000)
+      : null;
+  }
+}
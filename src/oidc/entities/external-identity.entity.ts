@@ -0,0 +1,36 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+
+@Entity('external_identities')
+@Index(['provider', 'subject'], { unique: true })
+@Index(['user', 'provider'], { unique: true })
+export class ExternalIdentity {
+  @PrimaryGeneratedColumn('increment')
+  id: number;
+
+  @Column({ type: 'varchar', length: 50, nullable: false })
+  provider: string;
+
+  // The "sub" claim, unique per issuer
+  @Column({ type: 'varchar', length: 255, nullable: false })
+  subject: string;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  email: string | null;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  created_at: Date;
+
+  @ManyToOne(() => User, (user) => user.external_identities, {
+    onDelete: 'CASCADE',
+    nullable: false,
+  })
+  user: User;
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { OidcService } from './oidc.service';
+import { ExternalIdentity } from './entities/external-identity.entity';
+import { JwtModule } from '../jwt/jwt.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([ExternalIdentity]), JwtModule],
+  providers: [OidcService],
+  exports: [OidcService],
+})
+export class OidcModule {}
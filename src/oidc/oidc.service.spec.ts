@@ -0,0 +1,108 @@
+import { BadRequestException, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService as NestJwtService } from '@nestjs/jwt';
+import { Repository } from 'typeorm';
+import { OidcService } from './oidc.service';
+import { ExternalIdentity } from './entities/external-identity.entity';
+import { JwtService } from '../jwt/jwt.service';
+import { JwtKeysService } from '../jwt/jwt-keys.service';
+import { MockOidcIssuer } from '../../test/mock-oidc-issuer';
+
+describe('OidcService', () => {
+  const issuer = new MockOidcIssuer();
+  let oidcService: OidcService;
+
+  const claims = {
+    sub: 'subject-1',
+    email: 'jane@example.com',
+    email_verified: true,
+  };
+
+  beforeAll(() => issuer.start());
+  afterAll(() => issuer.stop());
+
+  beforeEach(() => {
+    const configService = new ConfigService({
+      THE_URL: 'http://localhost:3000',
+      JWT_OIDC_SECRET: 'oidc-secret',
+      OIDC_PROVIDERS: 'mock',
+      OIDC_MOCK_ISSUER: issuer.issuer,
+      OIDC_MOCK_CLIENT_ID: 'posthub',
+    });
+    const jwtService = new JwtService(
+      new NestJwtService(),
+      configService,
+      new JwtKeysService(configService),
+    );
+
+    oidcService = new OidcService(
+      {} as Repository<ExternalIdentity>,
+      configService,
+      jwtService,
+    );
+  });
+
+  describe('handleCallback', () => {
+    it('returns the ID token claims for a valid callback', async () => {
+      const { authorizationUrl, transactionToken } =
+        await oidcService.createAuthorization('mock');
+      const { code, state } = issuer.authorize(authorizationUrl, claims);
+
+      const result = await oidcService.handleCallback(
+        'mock',
+        code,
+        state,
+        transactionToken,
+      );
+
+      expect(result.provider).toBe('mock');
+      expect(result.claims).toEqual(expect.objectContaining(claims));
+    });
+
+    it('rejects a state that does not match the transaction', async () => {
+      const { authorizationUrl, transactionToken } =
+        await oidcService.createAuthorization('mock');
+      const { code } = issuer.authorize(authorizationUrl, claims);
+
+      await expect(
+        oidcService.handleCallback('mock', code, 'forged', transactionToken),
+      ).rejects.toBeInstanceOf(BadRequestException);
+    });
+
+    it('rejects a code issued for another PKCE challenge', async () => {
+      const victim = await oidcService.createAuthorization('mock');
+      const attacker = await oidcService.createAuthorization('mock');
+      const { code } = issuer.authorize(victim.authorizationUrl, claims);
+      const { state } = issuer.authorize(attacker.authorizationUrl, claims);
+
+      await expect(
+        oidcService.handleCallback(
+          'mock',
+          code,
+          state,
+          attacker.transactionToken,
+        ),
+      ).rejects.toThrow(
+        new UnauthorizedException('Authorization code was rejected'),
+      );
+    });
+
+    it.each([
+      ['audience', { aud: 'another-client' }],
+      ['issuer', { iss: 'https://evil.example.com' }],
+      ['nonce', { nonce: 'replayed' }],
+    ])('rejects an ID token with the wrong %s', async (_field, overrides) => {
+      const { authorizationUrl, transactionToken } =
+        await oidcService.createAuthorization('mock');
+      const { code, state } = issuer.authorize(
+        authorizationUrl,
+        claims,
+        overrides,
+      );
+
+      await expect(
+        oidcService.handleCallback('mock', code, state, transactionToken),
+      ).rejects.toThrow(new UnauthorizedException('Invalid ID token'));
+    });
+  });
+});
@@ -0,0 +1,411 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { createHash, createPublicKey, JsonWebKey, randomBytes } from 'crypto';
+import { ExternalIdentity } from './entities/external-identity.entity';
+import { User } from '../users/entities/user.entity';
+import { JwtService } from '../jwt/jwt.service';
+import { errorHandler } from '../utils/error_handler';
+
+interface OidcProviderConfig {
+  name: string;
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  scopes: string;
+}
+
+interface OidcDiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+export interface OidcClaims {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+  preferred_username?: string;
+  nonce?: string;
+}
+
+export interface OidcCallbackResult {
+  provider: string;
+  claims: OidcClaims;
+  linkUserId?: number;
+}
+
+const ID_TOKEN_ALGORITHMS = ['RS256', 'RS384', 'RS512', 'ES256', 'ES384'];
+
+/**
+ * Provider-agnostic OpenID Connect client (authorization code + PKCE).
+ * Providers are configured from env:
+ *
+ *   OIDC_PROVIDERS=google,mock
+ *   OIDC_GOOGLE_ISSUER=https://accounts.google.com
+ *   OIDC_GOOGLE_CLIENT_ID=...
+ *   OIDC_GOOGLE_CLIENT_SECRET=...          (optional for public clients)
+ *   OIDC_GOOGLE_SCOPES=openid email profile (optional)
+ */
+@Injectable()
+export class OidcService {
+  private discoveryCache = new Map<string, OidcDiscoveryDocument>();
+  private jwksCache = new Map<string, JsonWebKey[]>();
+
+  constructor(
+    @InjectRepository(ExternalIdentity)
+    private readonly identityRepo: Repository<ExternalIdentity>,
+    private configService: ConfigService,
+    private jwtService: JwtService,
+  ) {}
+
+  getProviderNames(): string[] {
+    return (this.configService.get<string>('OIDC_PROVIDERS') ?? '')
+      .split(',')
+      .map((name) => name.trim().toLowerCase())
+      .filter(Boolean);
+  }
+
+  /**
+   * Builds the issuer authorization URL and a signed transaction token that
+   * keeps the state, nonce and PKCE verifier until the callback.
+   */
+  async createAuthorization(providerName: string, linkUserId?: number) {
+    try {
+      const provider = this.getProvider(providerName);
+      const discovery = await this.discover(provider);
+
+      const state = randomBytes(16).toString('base64url');
+      const nonce = randomBytes(16).toString('base64url');
+      const codeVerifier = randomBytes(32).toString('base64url');
+      const codeChallenge = createHash('sha256')
+        .update(codeVerifier)
+        .digest('base64url');
+
+      const params = new URLSearchParams({
+        response_type: 'code',
+        client_id: provider.clientId,
+        redirect_uri: this.redirectUri(provider.name),
+        scope: provider.scopes,
+        state,
+        nonce,
+        code_challenge: codeChallenge,
+        code_challenge_method: 'S256',
+      });
+
+      const transactionToken = this.jwtService.generateOidcTransactionToken({
+        provider: provider.name,
+        state,
+        nonce,
+        codeVerifier,
+        ...(linkUserId && { linkUserId }),
+      });
+
+      return {
+        authorizationUrl: `${discovery.authorization_endpoint}?${params.toString()}`,
+        transactionToken,
+      };
+    } catch (error) {
+      errorHandler(error, 'OidcService.createAuthorization');
+    }
+  }
+
+  async handleCallback(
+    providerName: string,
+    code: string | undefined,
+    state: string | undefined,
+    transactionToken: string | undefined,
+  ): Promise<OidcCallbackResult> {
+    try {
+      const provider = this.getProvider(providerName);
+
+      if (!code || !state || !transactionToken) {
+        throw new BadRequestException('Invalid or expired login attempt');
+      }
+
+      const transaction = await this.jwtService
+        .verifyOidcTransactionToken(transactionToken)
+        .catch(() => null);
+
+      if (
+        !transaction ||
+        transaction.provider !== provider.name ||
+        transaction.state !== state
+      ) {
+        throw new BadRequestException('Invalid or expired login attempt');
+      }
+
+      const discovery = await this.discover(provider);
+      const idToken = await this.exchangeCode(
+        provider,
+        discovery,
+        code,
+        transaction.codeVerifier,
+      );
+      const claims = await this.verifyIdToken(provider, discovery, idToken);
+
+      if (claims.nonce !== transaction.nonce) {
+        throw new UnauthorizedException('Invalid ID token');
+      }
+
+      return {
+        provider: provider.name,
+        claims,
+        linkUserId: transaction.linkUserId,
+      };
+    } catch (error) {
+      errorHandler(error, 'OidcService.handleCallback');
+    }
+  }
+
+  async findUserId(provider: string, subject: string) {
+    try {
+      const identity = await this.identityRepo.findOne({
+        where: { provider, subject },
+        relations: ['user'],
+        select: { id: true, user: { id: true } },
+      });
+
+      return identity?.user.id ?? null;
+    } catch (error) {
+      errorHandler(error, 'OidcService.findUserId');
+    }
+  }
+
+  async link(
+    userId: number,
+    provider: string,
+    subject: string,
+    email?: string | null,
+  ) {
+    try {
+      const owner = await this.findUserId(provider, subject);
+
+      if (owner && owner !== userId) {
+        throw new ConflictException(
+          'This external account is already linked to another user',
+        );
+      }
+
+      if (owner === userId) {
+        return;
+      }
+
+      const identity = this.identityRepo.create({
+        provider,
+        subject,
+        email: email?.toLowerCase() ?? null,
+        user: { id: userId } as User,
+      });
+
+      await this.identityRepo.save(identity);
+    } catch (error) {
+      if (error.code === '23505') {
+        throw new ConflictException(
+          'A different account from this provider is already linked',
+        );
+      }
+      errorHandler(error, 'OidcService.link');
+    }
+  }
+
+  async unlink(userId: number, provider: string) {
+    try {
+      const deleteRes = await this.identityRepo.delete({
+        user: { id: userId },
+        provider,
+      });
+
+      if (deleteRes.affected === 0) {
+        throw new NotFoundException('Linked account not found');
+      }
+    } catch (error) {
+      errorHandler(error, 'OidcService.unlink');
+    }
+  }
+
+  async findAllForUser(userId: number) {
+    try {
+      return await this.identityRepo.find({
+        where: { user: { id: userId } },
+        select: { id: true, provider: true, email: true, created_at: true },
+        order: { created_at: 'ASC' },
+      });
+    } catch (error) {
+      errorHandler(error, 'OidcService.findAllForUser');
+    }
+  }
+
+  private getProvider(name: string): OidcProviderConfig {
+    const normalized = name.toLowerCase();
+
+    if (!this.getProviderNames().includes(normalized)) {
+      throw new NotFoundException('Unknown identity provider');
+    }
+
+    const prefix = `OIDC_${normalized.toUpperCase()}_`;
+    const issuer = this.configService.get<string>(`${prefix}ISSUER`);
+    const clientId = this.configService.get<string>(`${prefix}CLIENT_ID`);
+
+    if (!issuer || !clientId) {
+      throw new NotFoundException('Unknown identity provider');
+    }
+
+    return {
+      name: normalized,
+      issuer: issuer.replace(/\/+$/, ''),
+      clientId,
+      clientSecret: this.configService.get<string>(`${prefix}CLIENT_SECRET`),
+      scopes: this.configService.get<string>(
+        `${prefix}SCOPES`,
+        'openid email profile',
+      ),
+    };
+  }
+
+  private redirectUri(providerName: string) {
+    return `${this.configService.get<string>('THE_URL')}/auth/oidc/${providerName}/callback`;
+  }
+
+  private async discover(provider: OidcProviderConfig) {
+    const cached = this.discoveryCache.get(provider.name);
+    if (cached) {
+      return cached;
+    }
+
+    const response = await fetch(
+      `${provider.issuer}/.well-known/openid-configuration`,
+    );
+
+    if (!response.ok) {
+      throw new Error(
+        `OIDC discovery failed for ${provider.name}: ${response.status}`,
+      );
+    }
+
+    const discovery = (await response.json()) as OidcDiscoveryDocument;
+
+    if (discovery.issuer.replace(/\/+$/, '') !== provider.issuer) {
+      throw new Error(`OIDC issuer mismatch for ${provider.name}`);
+    }
+
+    this.discoveryCache.set(provider.name, discovery);
+    return discovery;
+  }
+
+  private async exchangeCode(
+    provider: OidcProviderConfig,
+    discovery: OidcDiscoveryDocument,
+    code: string,
+    codeVerifier: string,
+  ) {
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: this.redirectUri(provider.name),
+      client_id: provider.clientId,
+      code_verifier: codeVerifier,
+    });
+
+    if (provider.clientSecret) {
+      body.set('client_secret', provider.clientSecret);
+    }
+
+    const response = await fetch(discovery.token_endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body,
+    });
+
+    if (!response.ok) {
+      throw new UnauthorizedException('Authorization code was rejected');
+    }
+
+    const tokens = (await response.json()) as { id_token?: string };
+
+    if (!tokens.id_token) {
+      throw new UnauthorizedException('Identity provider returned no ID token');
+    }
+
+    return tokens.id_token;
+  }
+
+  private async verifyIdToken(
+    provider: OidcProviderConfig,
+    discovery: OidcDiscoveryDocument,
+    idToken: string,
+  ) {
+    let header: { kid?: string; alg?: string };
+    try {
+      header = JSON.parse(
+        Buffer.from(idToken.split('.')[0], 'base64url').toString('utf8'),
+      );
+    } catch {
+      throw new UnauthorizedException('Invalid ID token');
+    }
+
+    if (!header.alg || !ID_TOKEN_ALGORITHMS.includes(header.alg)) {
+      throw new UnauthorizedException('Invalid ID token');
+    }
+
+    const jwk = await this.findSigningKey(provider, discovery, header.kid);
+    const publicKey = createPublicKey({ key: jwk, format: 'jwk' })
+      .export({ type: 'spki', format: 'pem' })
+      .toString();
+
+    try {
+      return await this.jwtService.verifyWithPublicKey<OidcClaims>(
+        idToken,
+        publicKey,
+        {
+          algorithms: [header.alg as 'RS256'],
+          issuer: discovery.issuer,
+          audience: provider.clientId,
+        },
+      );
+    } catch {
+      throw new UnauthorizedException('Invalid ID token');
+    }
+  }
+
+  private async findSigningKey(
+    provider: OidcProviderConfig,
+    discovery: OidcDiscoveryDocument,
+    kid?: string,
+  ) {
+    const pick = (keys: JsonWebKey[]) =>
+      keys.find(
+        (key) => (!kid || key.kid === kid) && (!key.use || key.use === 'sig'),
+      );
+
+    let key = pick(this.jwksCache.get(provider.name) ?? []);
+
+    // Unknown kid usually means the issuer rotated its keys
+    if (!key) {
+      const response = await fetch(discovery.jwks_uri);
+
+      if (!response.ok) {
+        throw new Error(`Fetching JWKS failed for ${provider.name}`);
+      }
+
+      const { keys } = (await response.json()) as { keys: JsonWebKey[] };
+      this.jwksCache.set(provider.name, keys);
+      key = pick(keys);
+    }
+
+    if (!key) {
+      throw new UnauthorizedException('Invalid ID token');
+    }
+
+    return key;
+  }
+}
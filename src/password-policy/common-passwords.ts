@@ -0,0 +1,363 @@
+// Most common and most often breached passwords, lowercased. Candidates are
+// compared after lowercasing and stripping trailing digits and symbols.
+export const COMMON_PASSWORDS: ReadonlySet<string> = new Set([
+  '123456',
+  'password',
+  '12345678',
+  'qwerty',
+  '123456789',
+  '12345',
+  '1234',
+  '111111',
+  '1234567',
+  'dragon',
+  '123123',
+  'baseball',
+  'abc123',
+  'football',
+  'monkey',
+  'letmein',
+  '696969',
+  'shadow',
+  'master',
+  '666666',
+  'qwertyuiop',
+  '123321',
+  'mustang',
+  '1234567890',
+  'michael',
+  '654321',
+  'superman',
+  '1qaz2wsx',
+  '7777777',
+  '121212',
+  '000000',
+  'qazwsx',
+  '123qwe',
+  'killer',
+  'trustno1',
+  'jordan',
+  'jennifer',
+  'zxcvbnm',
+  'asdfgh',
+  'hunter',
+  'buster',
+  'soccer',
+  'harley',
+  'batman',
+  'andrew',
+  'tigger',
+  'sunshine',
+  'iloveyou',
+  '2000',
+  'charlie',
+  'robert',
+  'thomas',
+  'hockey',
+  'ranger',
+  'daniel',
+  'starwars',
+  'klaster',
+  '112233',
+  'george',
+  'computer',
+  'michelle',
+  'jessica',
+  'pepper',
+  '1111',
+  'zxcvbn',
+  '555555',
+  '11111111',
+  '131313',
+  'freedom',
+  '777777',
+  'pass',
+  'maggie',
+  '159753',
+  'aaaaaa',
+  'ginger',
+  'princess',
+  'joshua',
+  'cheese',
+  'amanda',
+  'summer',
+  'love',
+  'ashley',
+  'nicole',
+  'chelsea',
+  'biteme',
+  'matthew',
+  'access',
+  'yankees',
+  '987654321',
+  'dallas',
+  'austin',
+  'thunder',
+  'taylor',
+  'matrix',
+  'mobilemail',
+  'mom',
+  'monitor',
+  'monitoring',
+  'montana',
+  'moon',
+  'moscow',
+  'william',
+  'corvette',
+  'hello',
+  'martin',
+  'heather',
+  'secret',
+  'merlin',
+  'diamond',
+  '1234qwer',
+  'gfhjkm',
+  'hammer',
+  'silver',
+  '222222',
+  '88888888',
+  'anthony',
+  'justin',
+  'test',
+  'bailey',
+  'q1w2e3r4t5',
+  'patrick',
+  'internet',
+  'scooter',
+  'orange',
+  '11111',
+  'golfer',
+  'cookie',
+  'richard',
+  'samantha',
+  'bigdog',
+  'guitar',
+  'jackson',
+  'whatever',
+  'mickey',
+  'chicken',
+  'sparky',
+  'snoopy',
+  'maverick',
+  'phoenix',
+  'camaro',
+  'peanut',
+  'morgan',
+  'welcome',
+  'falcon',
+  'cowboy',
+  'ferrari',
+  'samsung',
+  'andrea',
+  'smokey',
+  'steelers',
+  'joseph',
+  'mercedes',
+  'dakota',
+  'arsenal',
+  'eagles',
+  'melissa',
+  'boomer',
+  'booboo',
+  'spider',
+  'nascar',
+  'monster',
+  'tigers',
+  'yellow',
+  'xxxxxx',
+  '123123123',
+  'gateway',
+  'marina',
+  'diablo',
+  'bulldog',
+  'qwer1234',
+  'compaq',
+  'purple',
+  'banana',
+  'junior',
+  'hannah',
+  '123654',
+  'porsche',
+  'lakers',
+  'iceman',
+  'money',
+  'cowboys',
+  '987654',
+  'london',
+  'tennis',
+  '999999',
+  'ncc1701',
+  'coffee',
+  'scooby',
+  '0000',
+  'miller',
+  'boston',
+  'q1w2e3r4',
+  'brandon',
+  'yamaha',
+  'chester',
+  'mother',
+  'forever',
+  'johnny',
+  'edward',
+  '333333',
+  'oliver',
+  'redsox',
+  'player',
+  'nikita',
+  'knight',
+  'fender',
+  'barney',
+  'midnight',
+  'please',
+  'brandy',
+  'chicago',
+  'badboy',
+  'slayer',
+  'rangers',
+  'charles',
+  'angel',
+  'flower',
+  'rabbit',
+  'wizard',
+  'jasper',
+  'enter',
+  'rachel',
+  'chris',
+  'steven',
+  'winner',
+  'adidas',
+  'victoria',
+  'natasha',
+  '1q2w3e4r',
+  'jasmine',
+  'winter',
+  'prince',
+  'marine',
+  'ghbdtn',
+  'fishing',
+  'cocacola',
+  'casper',
+  'james',
+  '232323',
+  'raiders',
+  '888888',
+  'marlboro',
+  'gandalf',
+  'asdfasdf',
+  'crystal',
+  '87654321',
+  '12344321',
+  'golden',
+  '8675309',
+  'panther',
+  'lauren',
+  'angela',
+  'spanky',
+  'thx1138',
+  'angels',
+  'madison',
+  'winston',
+  'shannon',
+  'mike',
+  'toyota',
+  'jordan23',
+  'canada',
+  'sophie',
+  'apples',
+  'tiger',
+  'qwerty123',
+  'password1',
+  'password123',
+  'passw0rd',
+  'p@ssw0rd',
+  'p@ssword',
+  'welcome1',
+  'admin',
+  'admin123',
+  'administrator',
+  'root',
+  'toor',
+  'changeme',
+  'default',
+  'guest',
+  'login',
+  'letmein1',
+  'qwertyu',
+  'asdf',
+  'asdfg',
+  'asdfghjkl',
+  'zaq12wsx',
+  '1q2w3e',
+  '1q2w3e4r5t',
+  'qazwsxedc',
+  'iloveyou1',
+  'princess1',
+  'babygirl',
+  'lovely',
+  'rockyou',
+  '123abc',
+  'abcdef',
+  'abcd1234',
+  'a123456',
+  'aa123456',
+  'password12',
+  'pass123',
+  'pass1234',
+  'test123',
+  'test1234',
+  'qwerty1',
+  'monkey1',
+  'dragon1',
+  'football1',
+  'baseball1',
+  'superman1',
+  'sunshine1',
+  'shadow1',
+  'master1',
+  'michael1',
+  '1234abcd',
+  '1qazxsw2',
+  'zxcvbnm1',
+  'asd123',
+  'qwe123',
+  '112233445566',
+  '123456a',
+  '123456789a',
+  '11223344',
+  '147258369',
+  '159357',
+  '789456123',
+  '741852963',
+  '963852741',
+  '1122334455',
+  'azerty',
+  '000000000',
+  '1111111',
+  '11111111111',
+  '12341234',
+  '123321123',
+  '654321a',
+  'loveme',
+  'iloveu',
+  'lovers',
+  'friends',
+  'family',
+  'familia',
+  'hello123',
+  'hellokitty',
+  'welcome123',
+  'summer2024',
+  'winter2024',
+  'spring2024',
+  'autumn2024',
+  'summer2023',
+  'winter2023',
+  'posthub',
+  'posthub123',
+  'secret123',
+  'mypassword',
+  'yourpassword',
+  'nopassword',
+  'temp123',
+]);
@@ -0,0 +1,211 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { COMMON_PASSWORDS } from './common-passwords';
+
+export type PasswordRuleViolation =
+  | 'too_short'
+  | 'too_long'
+  | 'missing_lowercase'
+  | 'missing_uppercase'
+  | 'missing_digit'
+  | 'missing_symbol'
+  | 'common_password'
+  | 'contains_personal_info'
+  | 'too_weak';
+
+export interface PasswordPolicyReason {
+  code: PasswordRuleViolation;
+  message: string;
+}
+
+// Details of the account the password is for, which it should not contain
+export interface PasswordContext {
+  username?: string | null;
+  email?: string | null;
+  name?: string | null;
+}
+
+// bcrypt ignores everything after the first 72 bytes
+const BCRYPT_MAX_BYTES = 72;
+
+@Injectable()
+export class PasswordPolicyService {
+  constructor(private configService: ConfigService) {}
+
+  getRules() {
+    return {
+      minLength: Number(this.configService.get('PASSWORD_MIN_LENGTH', 8)),
+      maxLength: Math.min(
+        Number(this.configService.get('PASSWORD_MAX_LENGTH', 72)),
+        BCRYPT_MAX_BYTES,
+      ),
+      requireLowercase: this.flag('PASSWORD_REQUIRE_LOWERCASE'),
+      requireUppercase: this.flag('PASSWORD_REQUIRE_UPPERCASE'),
+      requireDigit: this.flag('PASSWORD_REQUIRE_DIGIT'),
+      requireSymbol: this.flag('PASSWORD_REQUIRE_SYMBOL'),
+      // 0 (very weak) to 4 (very strong)
+      minStrength: Number(this.configService.get('PASSWORD_MIN_STRENGTH', 2)),
+      rejectCommon:
+        this.configService.get('PASSWORD_REJECT_COMMON') !== 'false',
+    };
+  }
+
+  evaluate(password: string, context: PasswordContext = {}) {
+    const rules = this.getRules();
+    const reasons: PasswordPolicyReason[] = [];
+    const length = [...password].length;
+
+    if (length < rules.minLength) {
+      reasons.push({
+        code: 'too_short',
+        message: `Password must be at least ${rules.minLength} characters long`,
+      });
+    }
+
+    if (
+      length > rules.maxLength ||
+      Buffer.byteLength(password, 'utf8') > BCRYPT_MAX_BYTES
+    ) {
+      reasons.push({
+        code: 'too_long',
+        message: `Password must be at most ${rules.maxLength} characters long`,
+      });
+    }
+
+    if (rules.requireLowercase && !/\p{Ll}/u.test(password)) {
+      reasons.push({
+        code: 'missing_lowercase',
+        message: 'Password must contain a lowercase letter',
+      });
+    }
+
+    if (rules.requireUppercase && !/\p{Lu}/u.test(password)) {
+      reasons.push({
+        code: 'missing_uppercase',
+        message: 'Password must contain an uppercase letter',
+      });
+    }
+
+    if (rules.requireDigit && !/\d/.test(password)) {
+      reasons.push({
+        code: 'missing_digit',
+        message: 'Password must contain a digit',
+      });
+    }
+
+    if (rules.requireSymbol && !/[^\p{L}\p{N}]/u.test(password)) {
+      reasons.push({
+        code: 'missing_symbol',
+        message: 'Password must contain a symbol',
+      });
+    }
+
+    if (rules.rejectCommon && this.isCommon(password)) {
+      reasons.push({
+        code: 'common_password',
+        message: 'This password is too common or has appeared in data breaches',
+      });
+    }
+
+    if (this.containsPersonalInfo(password, context)) {
+      reasons.push({
+        code: 'contains_personal_info',
+        message: 'Password must not contain your name, username or email',
+      });
+    }
+
+    const score = this.score(password);
+
+    if (score < rules.minStrength) {
+      reasons.push({
+        code: 'too_weak',
+        message:
+          'Password is too easy to guess. Use a longer password or mix different kinds of characters',
+      });
+    }
+
+    return { valid: reasons.length === 0, score, reasons };
+  }
+
+  assertValid(password: string, context: PasswordContext = {}) {
+    const { valid, reasons } = this.evaluate(password, context);
+
+    if (!valid) {
+      throw new BadRequestException({
+        statusCode: 400,
+        message: 'Password does not meet the requirements',
+        error: 'Bad Request',
+        reasons,
+      });
+    }
+  }
+
+  /**
+   * Rough guessing-resistance score from 0 to 4, based on the character pool
+   * and the length left after discounting repeats and runs like "aaa" or "123".
+   */
+  private score(password: string) {
+    const chars = [...password];
+    let pool = 0;
+
+    if (/[a-z]/.test(password)) pool += 26;
+    if (/[A-Z]/.test(password)) pool += 26;
+    if (/\d/.test(password)) pool += 10;
+    if (/[!-/:-@[-`{-~ ]/.test(password)) pool += 33;
+    if (/[^\x00-\x7F]/.test(password)) pool += 100;
+
+    let effectiveLength = 0;
+
+    for (let i = 0; i < chars.length; i++) {
+      const current = chars[i].codePointAt(0)!;
+      const previous = chars[i - 1]?.codePointAt(0);
+      const beforePrevious = chars[i - 2]?.codePointAt(0);
+
+      const continuesPattern =
+        previous !== undefined &&
+        beforePrevious !== undefined &&
+        current - previous === previous - beforePrevious &&
+        Math.abs(current - previous) <= 1;
+
+      if (!continuesPattern) {
+        effectiveLength += 1;
+      }
+    }
+
+    const bits = effectiveLength * Math.log2(Math.max(pool, 1));
+
+    if (bits < 28) return 0;
+    if (bits < 36) return 1;
+    if (bits < 50) return 2;
+    if (bits < 64) return 3;
+    return 4;
+  }
+
+  private isCommon(password: string) {
+    const normalized = password.toLowerCase();
+    const base = normalized.replace(/[\d\W_]+$/u, '');
+
+    return (
+      COMMON_PASSWORDS.has(normalized) ||
+      (base.length >= 4 && COMMON_PASSWORDS.has(base))
+    );
+  }
+
+  private containsPersonalInfo(password: string, context: PasswordContext) {
+    const normalized = password.toLowerCase();
+    const parts = [
+      context.username,
+      context.email?.split('@')[0],
+      ...(context.name?.split(/\s+/) ?? []),
+    ];
+
+    return parts.some(
+      (part) =>
+        !!part && part.length >= 3 && normalized.includes(part.toLowerCase()),
+    );
+  }
+
+  private flag(key: string) {
+    return this.configService.get<string>(key) === 'true';
+  }
+}
@@ -25,7 +25,10 @@ import { PostService } from './post.service';
 import { CreatePostDto } from './dto/create-post.dto';
 import { UpdatePostDto } from './dto/update-post.dto';
 import { JwtAuthGuard } from '../guards/jwt-auth.guard';
+import { OptionalJwtAuthGuard } from '../guards/optional-jwt-auth.guard';
 import { CurrentUser } from '../decorators/current-user.decorator';
+import { Scopes } from '../decorators/scopes.decorator';
+import { ApiTokenScope } from '../api-tokens/entities/api-token.entity';
 
 @ApiTags('Posts')
 @Controller('posts')
@@ -34,6 +37,7 @@ export class PostController {
 
   @Post()
   @UseGuards(JwtAuthGuard)
+  @Scopes(ApiTokenScope.POSTS_WRITE)
   @ApiBearerAuth('JWT-auth')
   @HttpCode(HttpStatus.CREATED)
   @ApiOperation({
@@ -88,11 +92,14 @@ export class PostController {
   }
 
   @Get()
+  @UseGuards(OptionalJwtAuthGuard)
+  @Scopes(ApiTokenScope.READ)
+  @ApiBearerAuth('JWT-auth')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
     summary: 'Get all posts or posts by user',
     description:
-      'Get a paginated list of posts (20 per page). Can filter by userId to get posts from a specific user. Posts are ordered by creation date (newest first). Each post view increments the viewed_times counter.',
+      "Get a paginated list of posts (20 per page). Can filter by userId to get posts from a specific user. Posts of private accounts are only shown to the owner and approved followers; filtering by a private account the caller does not follow returns 403. Posts of users with a block between them and the caller are left out, as are posts with the caller's muted keywords and, unless filtering by userId, posts of accounts the caller muted. Posts are ordered by creation date (newest first). Each post view increments the viewed_times counter. Authentication is optional; with an access token every post also has liked_by_me for the caller.",
   })
   @ApiQuery({
     name: 'userId',
@@ -122,7 +129,9 @@ export class PostController {
             user: {
               id: 1,
               username: 'john_doe123',
+              avatar: null,
             },
+            liked_by_me: false,
           },
           {
             id: 1,
@@ -134,7 +143,9 @@ export class PostController {
             user: {
               id: 1,
               username: 'john_doe123',
+              avatar: null,
             },
+            liked_by_me: false,
           },
         ],
         total: 2,
@@ -154,7 +165,20 @@ export class PostController {
       },
     },
   })
+  @ApiResponse({
+    status: 403,
+    description:
+      'Private account - only the owner and approved followers can see its posts. Also returned with "You cannot view this account" when either user has blocked the other',
+    schema: {
+      example: {
+        statusCode: 403,
+        message: 'This account is private',
+        error: 'Forbidden',
+      },
+    },
+  })
   async findAll(
+    @CurrentUser() viewerId: number | undefined,
     @Query('userId') userId?: string,
     @Query('page') page?: string,
   ) {
@@ -169,15 +193,19 @@ export class PostController {
     return this.postService.findAll({
       userId: parsedUserId,
       page: parsedPage,
+      viewerId,
     });
   }
 
   @Get(':id')
+  @UseGuards(OptionalJwtAuthGuard)
+  @Scopes(ApiTokenScope.READ)
+  @ApiBearerAuth('JWT-auth')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
     summary: 'Get a single post by ID',
     description:
-      'Get detailed information about a specific post. This endpoint increments the viewed_times counter by 1 each time it is called.',
+      'Get detailed information about a specific post. Posts of private accounts are only visible to the owner and approved followers and look missing (404) to everyone else. This endpoint increments the viewed_times counter by 1 each time it is called. Authentication is optional; with an access token the post also has liked_by_me for the caller.',
   })
   @ApiParam({
     name: 'id',
@@ -198,7 +226,9 @@ export class PostController {
         user: {
           id: 1,
           username: 'john_doe123',
+          avatar: null,
         },
+        liked_by_me: true,
       },
     },
   })
@@ -213,12 +243,16 @@ export class PostController {
       },
     },
   })
-  async findOne(@Param('id', ParseIntPipe) id: number) {
-    return this.postService.findOne(id);
+  async findOne(
+    @Param('id', ParseIntPipe) id: number,
+    @CurrentUser() viewerId?: number,
+  ) {
+    return this.postService.findOne(id, viewerId);
   }
 
   @Patch(':id')
   @UseGuards(JwtAuthGuard)
+  @Scopes(ApiTokenScope.POSTS_WRITE)
   @ApiBearerAuth('JWT-auth')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
@@ -291,6 +325,7 @@ export class PostController {
 
   @Delete(':id')
   @UseGuards(JwtAuthGuard)
+  @Scopes(ApiTokenScope.POSTS_WRITE)
   @ApiBearerAuth('JWT-auth')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
@@ -3,10 +3,20 @@ import { PostService } from './post.service';
 import { PostController } from './post.controller';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { Post } from './entities/post.entity';
+import { Like } from '../likes/entities/like.entity';
 import { JwtModule } from '../jwt/jwt.module';
+import { ApiTokensModule } from '../api-tokens/api-tokens.module';
+import { SessionsModule } from '../sessions/sessions.module';
+import { UsersModule } from '../users/users.module';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([Post]), JwtModule],
+  imports: [
+    TypeOrmModule.forFeature([Post, Like]),
+    JwtModule,
+    ApiTokensModule,
+    SessionsModule,
+    UsersModule,
+  ],
   controllers: [PostController],
   providers: [PostService],
   exports: [PostService],
@@ -4,16 +4,21 @@ import {
   ForbiddenException,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { FindOptionsWhere, In, IsNull, Repository } from 'typeorm';
 import { Post } from './entities/post.entity';
 import { CreatePostDto } from './dto/create-post.dto';
 import { UpdatePostDto } from './dto/update-post.dto';
 import { errorHandler } from '../utils/error_handler';
 import { User } from '../users/entities/user.entity';
+import { Like } from '../likes/entities/like.entity';
+import { UsersService } from '../users/users.service';
+import { visibleAuthors } from '../users/visible-authors';
+import { withoutMutedKeywords } from '../mutes/muted-keywords';
 
 interface GetPostsPayload {
   userId?: number;
   page?: number;
+  viewerId?: number;
 }
 
 @Injectable()
@@ -21,6 +26,9 @@ export class PostService {
   constructor(
     @InjectRepository(Post)
     private readonly postRepo: Repository<Post>,
+    @InjectRepository(Like)
+    private readonly likeRepo: Repository<Like>,
+    private usersService: UsersService,
   ) {}
 
   async create(createPostDto: CreatePostDto, userId: number) {
@@ -37,10 +45,11 @@ export class PostService {
     }
   }
 
-  async findOne(id: number) {
+  async findOne(id: number, viewerId?: number) {
     try {
+      // Posts of private accounts look missing to everyone but followers
       const post = await this.postRepo.findOne({
-        where: { id },
+        where: visibleAuthors(viewerId).map((user) => ({ id, user })),
         relations: ['user'],
         select: {
           id: true,
@@ -49,7 +58,7 @@ export class PostService {
           viewed_times: true,
           created_at: true,
           updated_at: true,
-          user: { id: true, username: true },
+          user: { id: true, username: true, avatar: true },
         },
       });
 
@@ -60,7 +69,9 @@ export class PostService {
       post.viewed_times += 1;
       await this.postRepo.save(post);
 
-      return post;
+      const [result] = await this.addViewerFields([post], viewerId);
+
+      return result;
     } catch (error) {
       errorHandler(error, 'PostService.findOne');
     }
@@ -68,13 +79,28 @@ export class PostService {
 
   async findAll(payload: GetPostsPayload = {}) {
     try {
-      const { userId, page = 1 } = payload;
+      const { userId, page = 1, viewerId } = payload;
       const take = 20;
       const skip = (Math.max(1, page) - 1) * take;
 
-      const where: any = {};
+      // Posts of deactivated accounts stay hidden during the grace period,
+      // and those of private accounts are only shown to their followers.
+      // Muted keywords hide posts everywhere except the viewer's own, while
+      // muted accounts only drop out of the feed, not their own page.
+      const text = viewerId ? withoutMutedKeywords(viewerId) : undefined;
+      let where: FindOptionsWhere<Post>[];
       if (userId) {
-        where.user = { id: userId };
+        await this.usersService.assertContentVisible(userId, viewerId);
+        where = [
+          {
+            user: { id: userId, deactivated_at: IsNull() },
+            ...(userId !== viewerId && { text }),
+          },
+        ];
+      } else {
+        where = visibleAuthors(viewerId, { excludeMuted: true }).map(
+          (user) => ({ user, ...(user.id !== viewerId && { text }) }),
+        );
       }
 
       const [posts, total] = await this.postRepo.findAndCount({
@@ -87,7 +113,7 @@ export class PostService {
           viewed_times: true,
           created_at: true,
           updated_at: true,
-          user: { id: true, username: true },
+          user: { id: true, username: true, avatar: true },
         },
         order: { created_at: 'DESC' },
         skip,
@@ -95,7 +121,7 @@ export class PostService {
       });
 
       return {
-        posts,
+        posts: await this.addViewerFields(posts, viewerId),
         total,
         page: Math.max(1, page),
         totalPages: Math.ceil(total / take),
@@ -105,6 +131,31 @@ export class PostService {
     }
   }
 
+  // Adds liked_by_me for the viewer, checking the whole page in one query
+  private async addViewerFields(
+    posts: Post[],
+    viewerId?: number,
+  ): Promise<(Post & { liked_by_me?: boolean })[]> {
+    if (!viewerId || posts.length === 0) {
+      return posts;
+    }
+
+    const likes = await this.likeRepo.find({
+      where: {
+        user: { id: viewerId },
+        post: { id: In(posts.map((post) => post.id)) },
+      },
+      relations: ['post'],
+      select: { id: true, post: { id: true } },
+    });
+    const likedPostIds = new Set(likes.map((like) => like.post.id));
+
+    return posts.map((post) => ({
+      ...post,
+      liked_by_me: likedPostIds.has(post.id),
+    }));
+  }
+
   async update(id: number, updatePostDto: UpdatePostDto, userId: number) {
     try {
       const post = await this.postRepo.findOne({
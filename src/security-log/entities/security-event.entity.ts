@@ -0,0 +1,57 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+
+export enum SecurityEventType {
+  LOGIN_SUCCEEDED = 'login_succeeded',
+  LOGIN_FAILED = 'login_failed',
+  TOKEN_REFRESHED = 'token_refreshed',
+  REFRESH_TOKEN_REUSED = 'refresh_token_reused',
+  LOGGED_OUT = 'logged_out',
+  PASSWORD_CHANGED = 'password_changed',
+  PASSWORD_RESET = 'password_reset',
+  EMAIL_CHANGE_REQUESTED = 'email_change_requested',
+  EMAIL_CHANGED = 'email_changed',
+  ACCOUNT_ACTIVATED = 'account_activated',
+  ACCOUNT_SECURED = 'account_secured',
+}
+
+// Rows are only ever inserted; they go away with the user
+@Entity('security_events')
+@Index(['user', 'created_at'])
+export class SecurityEvent {
+  @PrimaryGeneratedColumn('increment')
+  id: number;
+
+  @Column({ type: 'enum', enum: SecurityEventType, nullable: false })
+  type: SecurityEventType;
+
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  ip: string | null;
+
+  @Column({ type: 'varchar', length: 512, nullable: true })
+  user_agent: string | null;
+
+  // Coarse description such as "Chrome on Windows"
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  device: string | null;
+
+  // e.g. the login method or why a login failed
+  @Column({ type: 'jsonb', nullable: true })
+  details: Record<string, string> | null;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  created_at: Date;
+
+  @ManyToOne(() => User, {
+    onDelete: 'CASCADE',
+    nullable: false,
+  })
+  user: User;
+}
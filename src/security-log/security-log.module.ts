@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { SecurityLogService } from './security-log.service';
+import { SecurityEvent } from './entities/security-event.entity';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([SecurityEvent])],
+  providers: [SecurityLogService],
+  exports: [SecurityLogService],
+})
+export class SecurityLogModule {}
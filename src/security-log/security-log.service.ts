@@ -0,0 +1,105 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import type { Request } from 'express';
+import {
+  SecurityEvent,
+  SecurityEventType,
+} from './entities/security-event.entity';
+import { errorHandler } from '../utils/error_handler';
+import { logError } from '../utils/error_logger';
+
+const PAGE_SIZE = 20;
+
+// Checked in order, so Edge and Opera are matched before Chrome and Safari
+const BROWSERS: [RegExp, string][] = [
+  [/Edg(e|A|iOS)?\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/Firefox\/|FxiOS\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+  [/PostmanRuntime\//, 'Postman'],
+  [/curl\//, 'curl'],
+];
+
+const PLATFORMS: [RegExp, string][] = [
+  [/Android/, 'Android'],
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux'],
+];
+
+@Injectable()
+export class SecurityLogService {
+  constructor(
+    @InjectRepository(SecurityEvent)
+    private readonly eventRepo: Repository<SecurityEvent>,
+  ) {}
+
+  /**
+   * Appends an event to the user's security log. A failed write is logged
+   * and swallowed so it never breaks the action being recorded.
+   */
+  async record(
+    userId: number,
+    type: SecurityEventType,
+    req?: Request,
+    details?: Record<string, string>,
+  ) {
+    try {
+      const userAgent = req?.headers['user-agent'] || null;
+
+      await this.eventRepo.insert({
+        user: { id: userId },
+        type,
+        ip: req?.ip?.slice(0, 64) || null,
+        user_agent: userAgent?.slice(0, 512) || null,
+        device: this.describeDevice(userAgent),
+        details: details ?? null,
+      });
+    } catch (error) {
+      logError(error, 'SecurityLogService.record');
+    }
+  }
+
+  async findAllForUser(userId: number, page = 1) {
+    try {
+      const currentPage = Math.max(1, page);
+
+      const [events, total] = await this.eventRepo.findAndCount({
+        where: { user: { id: userId } },
+        order: { created_at: 'DESC', id: 'DESC' },
+        skip: (currentPage - 1) * PAGE_SIZE,
+        take: PAGE_SIZE,
+      });
+
+      return {
+        events,
+        total,
+        page: currentPage,
+        totalPages: Math.ceil(total / PAGE_SIZE),
+      };
+    } catch (error) {
+      errorHandler(error, 'SecurityLogService.findAllForUser');
+    }
+  }
+
+  private describeDevice(userAgent: string | null) {
+    if (!userAgent) {
+      return null;
+    }
+
+    const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+    const platform = PLATFORMS.find(([pattern]) =>
+      pattern.test(userAgent),
+    )?.[1];
+
+    if (browser && platform) {
+      return `${browser} on ${platform}`;
+    }
+
+    return browser ?? platform ?? 'Unknown device';
+  }
+}
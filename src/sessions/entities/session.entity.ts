@@ -0,0 +1,41 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+
+@Entity('sessions')
+export class Session {
+  @PrimaryGeneratedColumn('increment')
+  id: number;
+
+  @Column({ type: 'varchar', length: 64, nullable: true, select: false })
+  hashed_refresh_token: string | null;
+
+  @Column({ type: 'varchar', length: 512, nullable: true })
+  user_agent: string | null;
+
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  ip: string | null;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  created_at: Date;
+
+  @Column({ type: 'timestamptz', nullable: false })
+  last_used_at: Date;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  revoked_at: Date | null;
+
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  revoked_reason: string | null;
+
+  @ManyToOne(() => User, (user) => user.sessions, {
+    onDelete: 'CASCADE',
+    nullable: false,
+  })
+  user: User;
+}
@@ -0,0 +1,186 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, LessThan, Not, Repository } from 'typeorm';
+import { createHash } from 'crypto';
+import { Session } from './entities/session.entity';
+import { User } from '../users/entities/user.entity';
+import { errorHandler } from '../utils/error_handler';
+
+export interface SessionMetadata {
+  userAgent?: string | null;
+  ip?: string | null;
+}
+
+export type RefreshTokenStatus = 'valid' | 'reused' | 'invalid';
+
+// Matches the refresh token cookie lifetime
+const SESSION_TTL_DAYS = 7;
+
+@Injectable()
+export class SessionsService {
+  constructor(
+    @InjectRepository(Session)
+    private readonly sessionRepo: Repository<Session>,
+  ) {}
+
+  async create(userId: number, metadata: SessionMetadata) {
+    try {
+      const session = this.sessionRepo.create({
+        user: { id: userId } as User,
+        user_agent: metadata.userAgent?.slice(0, 512) || null,
+        ip: metadata.ip || null,
+        last_used_at: new Date(),
+      });
+
+      return await this.sessionRepo.save(session);
+    } catch (error) {
+      errorHandler(error, 'SessionsService.create');
+    }
+  }
+
+  async setRefreshToken(
+    sessionId: number,
+    refreshToken: string,
+    metadata: SessionMetadata = {},
+  ) {
+    try {
+      await this.sessionRepo.update(
+        { id: sessionId },
+        {
+          hashed_refresh_token: this.hashToken(refreshToken),
+          last_used_at: new Date(),
+          ...(metadata.userAgent !== undefined && {
+            user_agent: metadata.userAgent?.slice(0, 512) || null,
+          }),
+          ...(metadata.ip !== undefined && { ip: metadata.ip || null }),
+        },
+      );
+    } catch (error) {
+      errorHandler(error, 'SessionsService.setRefreshToken');
+    }
+  }
+
+  async checkRefreshToken(
+    sessionId: number,
+    userId: number,
+    refreshToken: string,
+  ): Promise<RefreshTokenStatus> {
+    try {
+      const session = await this.sessionRepo.findOne({
+        where: { id: sessionId, user: { id: userId } },
+        select: { id: true, hashed_refresh_token: true, revoked_at: true },
+      });
+
+      if (!session || session.revoked_at || !session.hashed_refresh_token) {
+        return 'invalid';
+      }
+
+      // A correctly signed token for this session that is not the latest one
+      // has already been rotated, so somebody is replaying it
+      return session.hashed_refresh_token === this.hashToken(refreshToken)
+        ? 'valid'
+        : 'reused';
+    } catch (error) {
+      errorHandler(error, 'SessionsService.checkRefreshToken');
+    }
+  }
+
+  /**
+   * Returns the token version of the session owner, or null when the session
+   * was logged out or revoked.
+   */
+  async getTokenVersion(sessionId: number, userId: number) {
+    try {
+      const session = await this.sessionRepo.findOne({
+        where: { id: sessionId, user: { id: userId }, revoked_at: IsNull() },
+        relations: ['user'],
+        select: { id: true, user: { id: true, token_version: true } },
+      });
+
+      return session ? session.user.token_version : null;
+    } catch (error) {
+      errorHandler(error, 'SessionsService.getTokenVersion');
+    }
+  }
+
+  async revoke(sessionId: number, reason: string) {
+    try {
+      await this.sessionRepo.update(
+        { id: sessionId },
+        {
+          hashed_refresh_token: null,
+          revoked_at: new Date(),
+          revoked_reason: reason,
+        },
+      );
+    } catch (error) {
+      errorHandler(error, 'SessionsService.revoke');
+    }
+  }
+
+  async findAllForUser(userId: number) {
+    try {
+      return await this.sessionRepo.find({
+        where: { user: { id: userId }, revoked_at: IsNull() },
+        select: {
+          id: true,
+          user_agent: true,
+          ip: true,
+          created_at: true,
+          last_used_at: true,
+        },
+        order: { last_used_at: 'DESC' },
+      });
+    } catch (error) {
+      errorHandler(error, 'SessionsService.findAllForUser');
+    }
+  }
+
+  async remove(sessionId: number, userId: number) {
+    try {
+      const deleteRes = await this.sessionRepo.delete({
+        id: sessionId,
+        user: { id: userId },
+        revoked_at: IsNull(),
+      });
+
+      return !!deleteRes.affected;
+    } catch (error) {
+      errorHandler(error, 'SessionsService.remove');
+    }
+  }
+
+  async removeAllForUser(userId: number, exceptSessionId?: number) {
+    try {
+      const deleteRes = await this.sessionRepo.delete({
+        user: { id: userId },
+        revoked_at: IsNull(),
+        ...(exceptSessionId && { id: Not(exceptSessionId) }),
+      });
+
+      return deleteRes.affected || 0;
+    } catch (error) {
+      errorHandler(error, 'SessionsService.removeAllForUser');
+    }
+  }
+
+  async deleteExpiredSessions() {
+    try {
+      const expiredBefore = new Date();
+      expiredBefore.setDate(expiredBefore.getDate() - SESSION_TTL_DAYS);
+
+      const result = await this.sessionRepo.delete({
+        last_used_at: LessThan(expiredBefore),
+      });
+
+      return result.affected || 0;
+    } catch (error) {
+      errorHandler(error, 'SessionsService.deleteExpiredSessions');
+    }
+  }
+
+  // bcrypt only looks at the first 72 bytes, which JWTs of one user share
+  private hashToken(token: string) {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
@@ -0,0 +1,36 @@
+import { mkdir, rm, writeFile } from 'fs/promises';
+import { dirname, join, normalize, sep } from 'path';
+import { StorageDriver } from './storage-driver';
+
+// Writes files under a directory that is served as static assets
+export class LocalDiskStorageDriver implements StorageDriver {
+  constructor(
+    private readonly rootDir: string,
+    private readonly publicUrl: string,
+  ) {}
+
+  async save(key: string, data: Buffer) {
+    const path = this.resolve(key);
+
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, data);
+  }
+
+  async delete(key: string) {
+    await rm(this.resolve(key), { force: true });
+  }
+
+  getUrl(key: string) {
+    return `${this.publicUrl.replace(/\/+$/, '')}/${key}`;
+  }
+
+  private resolve(key: string) {
+    const path = normalize(join(this.rootDir, key));
+
+    if (!path.startsWith(normalize(this.rootDir) + sep)) {
+      throw new Error(`Storage key escapes the upload directory: ${key}`);
+    }
+
+    return path;
+  }
+}
@@ -0,0 +1,12 @@
+export const STORAGE_DRIVER = Symbol('STORAGE_DRIVER');
+
+/**
+ * Where uploaded files are kept. Keys are relative paths such as
+ * "avatars/12/3f9c1a-small.webp"; each driver decides how they map to
+ * stored objects and public URLs.
+ */
+export interface StorageDriver {
+  save(key: string, data: Buffer, contentType: string): Promise<void>;
+  delete(key: string): Promise<void>;
+  getUrl(key: string): string;
+}
@@ -0,0 +1,37 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { join } from 'path';
+import { STORAGE_DRIVER, StorageDriver } from './storage-driver';
+import { LocalDiskStorageDriver } from './local-disk.driver';
+
+function createStorageDriver(configService: ConfigService): StorageDriver {
+  const driver = configService.get<string>('STORAGE_DRIVER', 'local');
+
+  switch (driver) {
+    case 'local':
+      return new LocalDiskStorageDriver(
+        configService.get<string>(
+          'STORAGE_LOCAL_DIR',
+          join(__dirname, '..', '..', 'public', 'uploads'),
+        ),
+        configService.get<string>(
+          'STORAGE_PUBLIC_URL',
+          `${configService.get<string>('THE_URL')}/uploads`,
+        ),
+      );
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER: ${driver}`);
+  }
+}
+
+@Module({
+  providers: [
+    {
+      provide: STORAGE_DRIVER,
+      inject: [ConfigService],
+      useFactory: createStorageDriver,
+    },
+  ],
+  exports: [STORAGE_DRIVER],
+})
+export class StorageModule {}
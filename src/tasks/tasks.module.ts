@@ -1,9 +1,12 @@
 import { Module } from '@nestjs/common';
 import { TasksService } from './tasks.service';
 import { UsersModule } from '../users/users.module';
+import { SessionsModule } from '../sessions/sessions.module';
+import { AuthModule } from '../auth/auth.module';
+import { MutesModule } from '../mutes/mutes.module';
 
 @Module({
-  imports: [UsersModule],
+  imports: [UsersModule, SessionsModule, AuthModule, MutesModule],
   providers: [TasksService],
 })
 export class TasksModule {}
@@ -1,11 +1,17 @@
 import { Injectable } from '@nestjs/common';
 import { UsersService } from '../users/users.service';
 import { Cron, CronExpression } from '@nestjs/schedule';
+import { SessionsService } from '../sessions/sessions.service';
+import { LoginAttemptsService } from '../auth/login-attempts.service';
+import { MutesService } from '../mutes/mutes.service';
 
 @Injectable()
 export class TasksService {
   constructor(
     private usersService: UsersService, // ✅ Use service, not repository
+    private sessionsService: SessionsService,
+    private loginAttemptsService: LoginAttemptsService,
+    private mutesService: MutesService,
   ) {}
 
   @Cron(CronExpression.EVERY_HOUR)
@@ -17,4 +23,41 @@ export class TasksService {
       }
     } catch (error) {}
   }
+
+  @Cron(CronExpression.EVERY_DAY_AT_2AM)
+  async purgeDeactivatedUsers() {
+    try {
+      const deleted = await this.usersService.purgeDeactivatedUsers();
+      if (deleted > 0) {
+        console.log(`Permanently deleted ${deleted} deactivated user(s)`);
+      }
+    } catch (error) {}
+  }
+
+  @Cron(CronExpression.EVERY_DAY_AT_3AM)
+  async cleanupSessions() {
+    try {
+      const deleted = await this.sessionsService.deleteExpiredSessions();
+      if (deleted > 0) {
+        console.log(`Deleted ${deleted} expired session(s)`);
+      }
+    } catch (error) {}
+  }
+
+  @Cron(CronExpression.EVERY_HOUR)
+  async cleanupLoginAttempts() {
+    try {
+      await this.loginAttemptsService.deleteStaleAttempts();
+    } catch (error) {}
+  }
+
+  @Cron(CronExpression.EVERY_DAY_AT_4AM)
+  async cleanupMutes() {
+    try {
+      const deleted = await this.mutesService.deleteExpiredMutes();
+      if (deleted > 0) {
+        console.log(`Deleted ${deleted} expired mute(s)`);
+      }
+    } catch (error) {}
+  }
 }
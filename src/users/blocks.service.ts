@@ -0,0 +1,137 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { Block } from './entities/block.entity';
+import { User } from './entities/user.entity';
+import { Follow } from '../follows/entities/follow.entity';
+import { FollowRequest } from '../follows/entities/follow-request.entity';
+import { errorHandler } from '../utils/error_handler';
+
+@Injectable()
+export class BlocksService {
+  constructor(
+    @InjectRepository(Block) private readonly blockRepo: Repository<Block>,
+    @InjectRepository(User) private readonly userRepo: Repository<User>,
+  ) {}
+
+  /**
+   * Blocks a user and ends every follow and pending follow request between
+   * the two, in both directions.
+   */
+  async block(blockerId: number, blockedId: number) {
+    try {
+      if (blockerId === blockedId) {
+        throw new BadRequestException('You cannot block yourself');
+      }
+
+      if (
+        !(await this.userRepo.existsBy({
+          id: blockedId,
+          deactivated_at: IsNull(),
+        }))
+      ) {
+        throw new NotFoundException('User not found');
+      }
+
+      await this.blockRepo.manager.transaction(async (manager) => {
+        await manager.insert(Block, {
+          blocker: { id: blockerId },
+          blocked: { id: blockedId },
+        });
+
+        for (const [from, to] of [
+          [blockerId, blockedId],
+          [blockedId, blockerId],
+        ]) {
+          await manager.delete(Follow, {
+            follower: { id: from },
+            followed: { id: to },
+          });
+          await manager.delete(FollowRequest, {
+            requester: { id: from },
+            target: { id: to },
+          });
+        }
+      });
+
+      return { message: 'User blocked' };
+    } catch (error) {
+      if (error.code === '23505') {
+        throw new ConflictException('You have already blocked this user');
+      }
+
+      errorHandler(error, 'BlocksService.block');
+    }
+  }
+
+  async unblock(blockerId: number, blockedId: number) {
+    try {
+      const deleteRes = await this.blockRepo.delete({
+        blocker: { id: blockerId },
+        blocked: { id: blockedId },
+      });
+
+      if (deleteRes.affected === 0) {
+        throw new NotFoundException('You have not blocked this user');
+      }
+
+      return { message: 'User unblocked' };
+    } catch (error) {
+      errorHandler(error, 'BlocksService.unblock');
+    }
+  }
+
+  async getBlockedUsers(blockerId: number, page = 1) {
+    try {
+      const take = 20;
+      const skip = (Math.max(1, page) - 1) * take;
+
+      const [blocks, total] = await this.blockRepo.findAndCount({
+        where: { blocker: { id: blockerId } },
+        relations: ['blocked'],
+        select: {
+          id: true,
+          created_at: true,
+          blocked: { id: true, name: true, username: true, avatar: true },
+        },
+        order: { created_at: 'DESC' },
+        skip,
+        take,
+      });
+
+      return {
+        users: blocks.map((block) => ({
+          ...block.blocked,
+          blocked_at: block.created_at,
+        })),
+        total,
+        page: Math.max(1, page),
+        totalPages: Math.ceil(total / take),
+      };
+    } catch (error) {
+      errorHandler(error, 'BlocksService.getBlockedUsers');
+    }
+  }
+
+  // Whether either user has blocked the other
+  async isBlocked(userId: number, otherUserId: number) {
+    return await this.blockRepo.exists({
+      where: [
+        { blocker: { id: userId }, blocked: { id: otherUserId } },
+        { blocker: { id: otherUserId }, blocked: { id: userId } },
+      ],
+    });
+  }
+
+  async assertNotBlocked(userId: number, otherUserId: number) {
+    if (await this.isBlocked(userId, otherUserId)) {
+      throw new ForbiddenException('You cannot interact with this user');
+    }
+  }
+}
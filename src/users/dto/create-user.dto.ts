@@ -59,26 +59,23 @@ export class CreateUserDto {
   email: string;
 
   @ApiProperty({
-    description: 'User password',
+    description:
+      'User password. Must satisfy the password policy (see GET /auth/password-policy)',
     example: 'MyPassword123',
-    minLength: 4,
-    maxLength: 20,
+    maxLength: 72,
   })
   @IsNotEmpty()
   @IsString()
-  @MinLength(4)
-  @MaxLength(20)
+  @MaxLength(72)
   password: string;
 
   @ApiProperty({
     description: 'Password confirmation (must match password)',
     example: 'MyPassword123',
-    minLength: 4,
-    maxLength: 20,
+    maxLength: 72,
   })
   @IsNotEmpty()
   @IsString()
-  @MinLength(4)
-  @MaxLength(20)
+  @MaxLength(72)
   confirm_password: string;
 }
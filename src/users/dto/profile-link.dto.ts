@@ -0,0 +1,28 @@
+import { IsNotEmpty, IsString, IsUrl, MaxLength } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { normalizeUrl } from '../../utils/normalize-url';
+
+export class ProfileLinkDto {
+  @ApiProperty({
+    description: 'Text shown for the link',
+    example: 'GitHub',
+    maxLength: 30,
+  })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(30)
+  label: string;
+
+  @ApiProperty({
+    description:
+      'Link address. https:// is added when the scheme is missing; only http and https are allowed',
+    example: 'https://github.com/janedoe',
+    maxLength: 255,
+  })
+  @Transform(({ value }) => normalizeUrl(value))
+  @IsNotEmpty()
+  @IsUrl({ protocols: ['http', 'https'], require_protocol: true })
+  @MaxLength(255)
+  url: string;
+}
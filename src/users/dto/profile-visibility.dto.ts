@@ -0,0 +1,37 @@
+import { IsEnum, IsOptional } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { ProfileFieldVisibility } from '../entities/user.entity';
+
+export class ProfileVisibilityDto {
+  @ApiPropertyOptional({
+    enum: ProfileFieldVisibility,
+    example: ProfileFieldVisibility.PUBLIC,
+  })
+  @IsOptional()
+  @IsEnum(ProfileFieldVisibility)
+  website?: ProfileFieldVisibility;
+
+  @ApiPropertyOptional({
+    enum: ProfileFieldVisibility,
+    example: ProfileFieldVisibility.PUBLIC,
+  })
+  @IsOptional()
+  @IsEnum(ProfileFieldVisibility)
+  location?: ProfileFieldVisibility;
+
+  @ApiPropertyOptional({
+    enum: ProfileFieldVisibility,
+    example: ProfileFieldVisibility.PUBLIC,
+  })
+  @IsOptional()
+  @IsEnum(ProfileFieldVisibility)
+  pronouns?: ProfileFieldVisibility;
+
+  @ApiPropertyOptional({
+    enum: ProfileFieldVisibility,
+    example: ProfileFieldVisibility.FOLLOWERS,
+  })
+  @IsOptional()
+  @IsEnum(ProfileFieldVisibility)
+  birthday?: ProfileFieldVisibility;
+}
@@ -0,0 +1,14 @@
+import { IsEnum, IsNotEmpty } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { UserRole } from '../entities/user.entity';
+
+export class UpdateRoleDto {
+  @ApiProperty({
+    description: 'New role for the user',
+    enum: UserRole,
+    example: UserRole.ADMIN,
+  })
+  @IsNotEmpty()
+  @IsEnum(UserRole)
+  role: UserRole;
+}
@@ -1,6 +1,24 @@
 import { PartialType, OmitType } from '@nestjs/mapped-types';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsISO8601,
+  IsOptional,
+  IsString,
+  IsUrl,
+  Matches,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
 import { CreateUserDto } from './create-user.dto';
 import { ApiPropertyOptional } from '@nestjs/swagger';
+import { ProfileLinkDto } from './profile-link.dto';
+import { ProfileVisibilityDto } from './profile-visibility.dto';
+import { normalizeUrl } from '../../utils/normalize-url';
+
+export const MAX_PROFILE_LINKS = 5;
 
 export class UpdateUserDto extends PartialType(
   OmitType(CreateUserDto, ['email', 'password', 'confirm_password'] as const),
@@ -25,4 +43,80 @@ export class UpdateUserDto extends PartialType(
     maxLength: 255,
   })
   description?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Personal website. https:// is added when the scheme is missing; only http and https are allowed. null removes it.',
+    example: 'janedoe.dev',
+    maxLength: 255,
+    nullable: true,
+  })
+  @IsOptional()
+  @Transform(({ value }) => normalizeUrl(value))
+  @IsUrl({ protocols: ['http', 'https'], require_protocol: true })
+  @MaxLength(255)
+  website?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Where the user is based. null removes it.',
+    example: 'Tashkent, Uzbekistan',
+    maxLength: 100,
+    nullable: true,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  location?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Pronouns. null removes them.',
+    example: 'she/her',
+    maxLength: 30,
+    nullable: true,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(30)
+  pronouns?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Date of birth (YYYY-MM-DD). null removes it.',
+    example: '1998-04-12',
+    nullable: true,
+  })
+  @IsOptional()
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, { message: 'birthday must be YYYY-MM-DD' })
+  @IsISO8601({ strict: true })
+  birthday?: string | null;
+
+  @ApiPropertyOptional({
+    description: `Profile links in display order, at most ${MAX_PROFILE_LINKS}. Replaces the current list.`,
+    type: [ProfileLinkDto],
+    maxItems: MAX_PROFILE_LINKS,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_PROFILE_LINKS)
+  @ValidateNested({ each: true })
+  @Type(() => ProfileLinkDto)
+  links?: ProfileLinkDto[];
+
+  @ApiPropertyOptional({
+    description:
+      'Who can see each field: public, followers (people who follow you) or private (only you). Omitted fields keep their current setting.',
+    type: ProfileVisibilityDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ProfileVisibilityDto)
+  profile_visibility?: ProfileVisibilityDto;
+
+  @ApiPropertyOptional({
+    description:
+      'Private account: new followers need your approval, and only approved followers see your posts, likes and follow lists',
+    example: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  is_private?: boolean;
 }
@@ -0,0 +1,26 @@
+import {
+  CreateDateColumn,
+  Entity,
+  Index,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { User } from './user.entity';
+
+// Blocks hide the two users from each other and stop them interacting,
+// whichever of them created it
+@Entity('blocks')
+@Index(['blocker', 'blocked'], { unique: true })
+export class Block {
+  @PrimaryGeneratedColumn('increment')
+  id: number;
+
+  @ManyToOne(() => User, { nullable: false, onDelete: 'CASCADE' })
+  blocker: User;
+
+  @ManyToOne(() => User, { nullable: false, onDelete: 'CASCADE' })
+  blocked: User;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  created_at: Date;
+}
@@ -10,6 +10,38 @@ import { Follow } from '../../follows/entities/follow.entity';
 import { Post } from '../../post/entities/post.entity';
 import { Comment } from '../../comment/entities/comment.entity';
 import { Like } from '../../likes/entities/like.entity';
+import { Session } from '../../sessions/entities/session.entity';
+import { ApiToken } from '../../api-tokens/entities/api-token.entity';
+import { ExternalIdentity } from '../../oidc/entities/external-identity.entity';
+
+export enum UserRole {
+  USER = 'user',
+  ADMIN = 'admin',
+}
+
+export enum ProfileFieldVisibility {
+  PUBLIC = 'public',
+  FOLLOWERS = 'followers',
+  PRIVATE = 'private',
+}
+
+// Fields of the profile that can be hidden from other users
+export type ProfileVisibility = Record<
+  'website' | 'location' | 'pronouns' | 'birthday',
+  ProfileFieldVisibility
+>;
+
+export const DEFAULT_PROFILE_VISIBILITY: ProfileVisibility = {
+  website: ProfileFieldVisibility.PUBLIC,
+  location: ProfileFieldVisibility.PUBLIC,
+  pronouns: ProfileFieldVisibility.PUBLIC,
+  birthday: ProfileFieldVisibility.PRIVATE,
+};
+
+export interface ProfileLink {
+  label: string;
+  url: string;
+}
 
 @Entity('users')
 export class User {
@@ -25,6 +57,49 @@ export class User {
   @Column({ type: 'text', nullable: true })
   description: string | null;
 
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  website: string | null;
+
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  location: string | null;
+
+  @Column({ type: 'varchar', length: 30, nullable: true })
+  pronouns: string | null;
+
+  // YYYY-MM-DD
+  @Column({ type: 'date', nullable: true })
+  birthday: string | null;
+
+  // Shown in this order
+  @Column({ type: 'jsonb', nullable: false, default: () => "'[]'" })
+  links: ProfileLink[];
+
+  @Column({
+    type: 'jsonb',
+    nullable: false,
+    default: () => `'${JSON.stringify(DEFAULT_PROFILE_VISIBILITY)}'`,
+  })
+  profile_visibility: ProfileVisibility;
+
+  // Posts, likes and follow lists of private accounts are shown only to
+  // approved followers, and following them needs the owner's approval
+  @Column({ type: 'boolean', nullable: false, default: false })
+  is_private: boolean;
+
+  // URLs of the resized variants, stored as is so any select can return them
+  @Column({ type: 'jsonb', nullable: true })
+  avatar: Record<string, string> | null;
+
+  @Column({ type: 'jsonb', nullable: true })
+  banner: Record<string, string> | null;
+
+  // Storage keys of the current images, needed to delete them when replaced
+  @Column({ type: 'varchar', length: 255, nullable: true, select: false })
+  avatar_key: string | null;
+
+  @Column({ type: 'varchar', length: 255, nullable: true, select: false })
+  banner_key: string | null;
+
   @Column({ type: 'varchar', length: 255, nullable: false, unique: true })
   email: string;
 
@@ -34,8 +109,54 @@ export class User {
   @Column({ type: 'boolean', nullable: false, default: false })
   is_active: boolean;
 
-  @Column({ type: 'varchar', length: 1020, nullable: true })
-  hashed_refresh_token: string | null;
+  @Column({
+    type: 'enum',
+    enum: UserRole,
+    nullable: false,
+    default: UserRole.USER,
+  })
+  role: UserRole;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  activation_sent_at: Date | null;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  password_reset_sent_at: Date | null;
+
+  // Set while the account waits for permanent deletion; logging in clears it
+  @Column({ type: 'timestamptz', nullable: true })
+  deactivated_at: Date | null;
+
+  // Bumped whenever the password changes; tokens carrying an older value are rejected
+  @Column({ type: 'int', nullable: false, default: 0 })
+  token_version: number;
+
+  // Set when the owner used a security alert link; older alert links stop working
+  @Column({ type: 'timestamptz', nullable: true })
+  secured_at: Date | null;
+
+  @Column({ type: 'boolean', nullable: false, default: false })
+  two_factor_enabled: boolean;
+
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  two_factor_secret: string | null;
+
+  @Column({ type: 'text', array: true, nullable: true })
+  two_factor_recovery_codes: string[] | null;
+
+  @Column({ type: 'integer', nullable: true })
+  two_factor_last_step: number | null;
+
+  // Only the challenge of the latest login can be used, and only once
+  @Column({ type: 'varchar', length: 64, nullable: true, select: false })
+  two_factor_challenge_id: string | null;
+
+  // Only the most recently emailed magic link can be used, and only once
+  @Column({ type: 'varchar', length: 64, nullable: true, select: false })
+  magic_link_id: string | null;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  magic_link_sent_at: Date | null;
 
   @CreateDateColumn({ type: 'timestamptz' })
   created_at: Date;
@@ -57,4 +178,13 @@ export class User {
 
   @OneToMany(() => Like, (like) => like.user)
   likes: Like[];
+
+  @OneToMany(() => Session, (session) => session.user)
+  sessions: Session[];
+
+  @OneToMany(() => ApiToken, (apiToken) => apiToken.user)
+  api_tokens: ApiToken[];
+
+  @OneToMany(() => ExternalIdentity, (identity) => identity.user)
+  external_identities: ExternalIdentity[];
 }
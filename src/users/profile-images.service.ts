@@ -0,0 +1,86 @@
+import { BadRequestException, Inject, Injectable } from '@nestjs/common';
+import { randomBytes } from 'crypto';
+import sharp from 'sharp';
+import { STORAGE_DRIVER } from '../storage/storage-driver';
+import type { StorageDriver } from '../storage/storage-driver';
+
+export type ProfileImageKind = 'avatar' | 'banner';
+
+// Public URL of every resized variant, by variant name
+export type ImageVariants = Record<string, string>;
+
+const ALLOWED_FORMATS = ['jpeg', 'png', 'webp', 'gif'];
+
+const VARIANTS: Record<
+  ProfileImageKind,
+  { name: string; width: number; height: number }[]
+> = {
+  avatar: [
+    { name: 'small', width: 64, height: 64 },
+    { name: 'medium', width: 200, height: 200 },
+    { name: 'large', width: 512, height: 512 },
+  ],
+  banner: [
+    { name: 'medium', width: 750, height: 250 },
+    { name: 'large', width: 1500, height: 500 },
+  ],
+};
+
+@Injectable()
+export class ProfileImagesService {
+  constructor(@Inject(STORAGE_DRIVER) private storage: StorageDriver) {}
+
+  /**
+   * Checks the upload by its actual content rather than the declared type,
+   * then stores a center-cropped WebP for every variant of the kind. Returns
+   * the storage key shared by the variants and their URLs.
+   */
+  async store(
+    userId: number,
+    kind: ProfileImageKind,
+    file: Express.Multer.File | undefined,
+  ) {
+    if (!file) {
+      throw new BadRequestException('An image file is required');
+    }
+
+    const image = sharp(file.buffer, { animated: false });
+    const metadata = await image.metadata().catch(() => null);
+
+    if (!metadata?.format || !ALLOWED_FORMATS.includes(metadata.format)) {
+      throw new BadRequestException(
+        'Only JPEG, PNG, WebP and GIF images are allowed',
+      );
+    }
+
+    const key = `${kind}s/${userId}/${randomBytes(8).toString('hex')}`;
+    const urls: ImageVariants = {};
+
+    for (const variant of VARIANTS[kind]) {
+      const data = await image
+        .clone()
+        .rotate()
+        .resize(variant.width, variant.height, { fit: 'cover' })
+        .webp({ quality: 82 })
+        .toBuffer();
+      const variantKey = this.variantKey(key, variant.name);
+
+      await this.storage.save(variantKey, data, 'image/webp');
+      urls[variant.name] = this.storage.getUrl(variantKey);
+    }
+
+    return { key, urls };
+  }
+
+  async remove(kind: ProfileImageKind, key: string) {
+    await Promise.all(
+      VARIANTS[kind].map((variant) =>
+        this.storage.delete(this.variantKey(key, variant.name)),
+      ),
+    );
+  }
+
+  private variantKey(key: string, variantName: string) {
+    return `${key}-${variantName}.webp`;
+  }
+}
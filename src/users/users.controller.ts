@@ -5,6 +5,7 @@ import {
   Patch,
   Param,
   Delete,
+  Post,
   UseGuards,
   Query,
   ParseIntPipe,
@@ -12,7 +13,11 @@ import {
   HttpCode,
   HttpStatus,
   BadRequestException,
+  Put,
+  UploadedFile,
+  UseInterceptors,
 } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
 import {
   ApiTags,
   ApiOperation,
@@ -20,24 +25,44 @@ import {
   ApiQuery,
   ApiParam,
   ApiBearerAuth,
+  ApiConsumes,
+  ApiBody,
 } from '@nestjs/swagger';
 import { UsersService } from './users.service';
+import { BlocksService } from './blocks.service';
 import { UpdateUserDto } from './dto/update-user.dto';
 import { JwtAuthGuard } from '../guards/jwt-auth.guard';
+import { OptionalJwtAuthGuard } from '../guards/optional-jwt-auth.guard';
 import { CurrentUser } from '../decorators/current-user.decorator';
+import { Scopes } from '../decorators/scopes.decorator';
+import { ApiTokenScope } from '../api-tokens/entities/api-token.entity';
 import type { Response } from 'express';
+import { RolesGuard } from '../guards/roles.guard';
+import { Roles } from '../decorators/roles.decorator';
+import { UserRole } from './entities/user.entity';
+import { UpdateRoleDto } from './dto/update-role.dto';
+import { ReauthGuard } from '../guards/reauth.guard';
+import { RequiresReauth } from '../decorators/requires-reauth.decorator';
+import { CookiesService } from '../cookies/cookies.service';
 
 @ApiTags('Users')
 @Controller('users')
 export class UsersController {
-  constructor(private readonly usersService: UsersService) {}
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly blocksService: BlocksService,
+    private readonly cookiesService: CookiesService,
+  ) {}
 
   @Get('search')
+  @UseGuards(OptionalJwtAuthGuard)
+  @Scopes(ApiTokenScope.READ)
+  @ApiBearerAuth('JWT-auth')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
     summary: 'Search for users',
     description:
-      'Search for active users by username or name. Returns paginated results (20 users per page). Only returns users who have activated their accounts.',
+      'Search for active users by username or name. Returns paginated results (20 users per page). Only returns users who have activated their accounts. Authentication is optional; with an access token every user also has is_following, follows_me and follow_requested for the caller, and users with a block between them and the caller are left out.',
   })
   @ApiQuery({
     name: 'search',
@@ -62,14 +87,22 @@ export class UsersController {
             name: 'John Doe',
             username: 'john_doe123',
             description: 'Software developer',
+            avatar: null,
             created_at: '2024-01-15T10:30:00.000Z',
+            is_following: true,
+            follows_me: false,
+            follow_requested: false,
           },
           {
             id: 2,
             name: 'Johnny Smith',
             username: 'johnny_s',
             description: null,
+            avatar: null,
             created_at: '2024-01-16T14:20:00.000Z',
+            is_following: false,
+            follows_me: false,
+            follow_requested: false,
           },
         ],
         total: 2,
@@ -101,6 +134,7 @@ export class UsersController {
     },
   })
   async findUsers(
+    @CurrentUser() viewerId: number | undefined,
     @Query('search') search: string,
     @Query('page') page?: string,
   ) {
@@ -111,11 +145,13 @@ export class UsersController {
     return this.usersService.findUsers({
       search,
       page: parsedPage,
+      viewerId,
     });
   }
 
   @Get('me')
   @UseGuards(JwtAuthGuard)
+  @Scopes(ApiTokenScope.READ)
   @ApiBearerAuth('JWT-auth')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
@@ -132,8 +168,30 @@ export class UsersController {
         name: 'John Doe',
         username: 'john_doe123',
         description: 'Software developer and coffee enthusiast',
+        avatar: {
+          small:
+            'https://posthub.bestapi.uz/uploads/avatars/1/3f9c1a7be2d04c55-small.webp',
+          medium:
+            'https://posthub.bestapi.uz/uploads/avatars/1/3f9c1a7be2d04c55-medium.webp',
+          large:
+            'https://posthub.bestapi.uz/uploads/avatars/1/3f9c1a7be2d04c55-large.webp',
+        },
+        banner: null,
+        website: 'https://janedoe.dev',
+        location: 'Tashkent, Uzbekistan',
+        pronouns: 'she/her',
+        birthday: '1998-04-12',
+        links: [{ label: 'GitHub', url: 'https://github.com/janedoe' }],
+        is_private: false,
+        profile_visibility: {
+          website: 'public',
+          location: 'public',
+          pronouns: 'public',
+          birthday: 'followers',
+        },
         email: 'john.doe@example.com',
         is_active: true,
+        role: 'user',
         created_at: '2024-01-15T10:30:00.000Z',
         updated_at: '2024-01-20T15:45:00.000Z',
       },
@@ -203,10 +261,14 @@ export class UsersController {
   }
 
   @Get(':id')
+  @UseGuards(OptionalJwtAuthGuard)
+  @Scopes(ApiTokenScope.READ)
+  @ApiBearerAuth('JWT-auth')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
     summary: 'Get user by ID',
-    description: 'Get public profile information of a user by their ID.',
+    description:
+      'Get public profile information of a user by their ID. Authentication is optional; with an access token the profile also has is_following, follows_me and follow_requested for the caller. website, location, pronouns and birthday are null when the owner has hidden them from the caller. A block in either direction makes the profile answer 404.',
   })
   @ApiParam({
     name: 'id',
@@ -222,10 +284,22 @@ export class UsersController {
         name: 'John Doe',
         username: 'john_doe123',
         description: 'Software developer',
+        avatar: null,
+        banner: null,
+        website: 'https://janedoe.dev',
+        location: 'Tashkent, Uzbekistan',
+        pronouns: 'she/her',
+        birthday: null,
+        links: [{ label: 'GitHub', url: 'https://github.com/janedoe' }],
+        is_private: false,
         email: 'john.doe@example.com',
         is_active: true,
+        role: 'user',
         created_at: '2024-01-15T10:30:00.000Z',
         updated_at: '2024-01-20T15:45:00.000Z',
+        is_following: true,
+        follows_me: true,
+        follow_requested: false,
       },
     },
   })
@@ -240,18 +314,22 @@ export class UsersController {
       },
     },
   })
-  async getOne(@Param('id', ParseIntPipe) id: number) {
-    return this.usersService.getOne({ id });
+  async getOne(
+    @Param('id', ParseIntPipe) id: number,
+    @CurrentUser() viewerId?: number,
+  ) {
+    return this.usersService.getProfile(id, viewerId);
   }
 
   @Patch('me')
   @UseGuards(JwtAuthGuard)
+  @Scopes(ApiTokenScope.PROFILE_WRITE)
   @ApiBearerAuth('JWT-auth')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
     summary: 'Update current user profile',
     description:
-      'Update the profile information of the currently authenticated user. Can update name, username, and/or description. Email and password must be updated through separate endpoints.',
+      'Update the profile information of the currently authenticated user. Can update name, username, description, website, location, pronouns, birthday, profile links and who can see each optional field. Email and password must be updated through separate endpoints.',
   })
   @ApiResponse({
     status: 200,
@@ -262,8 +340,23 @@ export class UsersController {
         name: 'Jane Doe',
         username: 'jane_doe456',
         description: 'Updated bio',
+        avatar: null,
+        banner: null,
+        website: 'https://janedoe.dev',
+        location: 'Tashkent, Uzbekistan',
+        pronouns: 'she/her',
+        birthday: '1998-04-12',
+        links: [{ label: 'GitHub', url: 'https://github.com/janedoe' }],
+        is_private: false,
+        profile_visibility: {
+          website: 'public',
+          location: 'public',
+          pronouns: 'public',
+          birthday: 'followers',
+        },
         email: 'john.doe@example.com',
         is_active: true,
+        role: 'user',
         created_at: '2024-01-15T10:30:00.000Z',
         updated_at: '2024-01-25T09:15:00.000Z',
       },
@@ -309,21 +402,466 @@ export class UsersController {
     return this.usersService.update(userId, updateUserDto);
   }
 
-  @Delete('me')
+  @Put('me/avatar')
+  @UseGuards(JwtAuthGuard)
+  @Scopes(ApiTokenScope.PROFILE_WRITE)
+  @ApiBearerAuth('JWT-auth')
+  @UseInterceptors(FileInterceptor('file'))
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Upload a profile picture',
+    description:
+      'Replace the avatar of the currently authenticated user with a multipart upload in the file field. The image is center-cropped to squares of 64, 200 and 512 pixels and stored as WebP; the previous avatar is deleted. Size limit is PROFILE_IMAGE_MAX_SIZE_MB (5 MB by default).',
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        file: {
+          type: 'string',
+          format: 'binary',
+          description: 'JPEG, PNG, WebP or GIF image (max 5 MB)',
+        },
+      },
+      required: ['file'],
+    },
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Avatar updated successfully',
+    schema: {
+      example: {
+        avatar: {
+          small:
+            'https://posthub.bestapi.uz/uploads/avatars/1/3f9c1a7be2d04c55-small.webp',
+          medium:
+            'https://posthub.bestapi.uz/uploads/avatars/1/3f9c1a7be2d04c55-medium.webp',
+          large:
+            'https://posthub.bestapi.uz/uploads/avatars/1/3f9c1a7be2d04c55-large.webp',
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad Request - Missing file or unsupported image type',
+    schema: {
+      example: {
+        statusCode: 400,
+        message: 'Only JPEG, PNG, WebP and GIF images are allowed',
+        error: 'Bad Request',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing access token',
+    schema: {
+      example: {
+        statusCode: 401,
+        message: 'Access token not found',
+        error: 'Unauthorized',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 413,
+    description: 'Payload Too Large - The image exceeds the size limit',
+    schema: {
+      example: {
+        statusCode: 413,
+        message: 'File too large',
+        error: 'Payload Too Large',
+      },
+    },
+  })
+  async updateAvatar(
+    @CurrentUser() userId: number,
+    @UploadedFile() file: Express.Multer.File | undefined,
+  ) {
+    return this.usersService.updateProfileImage(userId, 'avatar', file);
+  }
+
+  @Put('me/banner')
+  @UseGuards(JwtAuthGuard)
+  @Scopes(ApiTokenScope.PROFILE_WRITE)
+  @ApiBearerAuth('JWT-auth')
+  @UseInterceptors(FileInterceptor('file'))
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Upload a profile banner',
+    description:
+      'Replace the banner of the currently authenticated user with a multipart upload in the file field. The image is center-cropped to 750x250 and 1500x500 pixels and stored as WebP; the previous banner is deleted. Size limit is PROFILE_IMAGE_MAX_SIZE_MB (5 MB by default).',
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        file: {
+          type: 'string',
+          format: 'binary',
+          description: 'JPEG, PNG, WebP or GIF image (max 5 MB)',
+        },
+      },
+      required: ['file'],
+    },
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Banner updated successfully',
+    schema: {
+      example: {
+        banner: {
+          medium:
+            'https://posthub.bestapi.uz/uploads/banners/1/8a41d0c6e97b2f13-medium.webp',
+          large:
+            'https://posthub.bestapi.uz/uploads/banners/1/8a41d0c6e97b2f13-large.webp',
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad Request - Missing file or unsupported image type',
+    schema: {
+      example: {
+        statusCode: 400,
+        message: 'Only JPEG, PNG, WebP and GIF images are allowed',
+        error: 'Bad Request',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing access token',
+    schema: {
+      example: {
+        statusCode: 401,
+        message: 'Access token not found',
+        error: 'Unauthorized',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 413,
+    description: 'Payload Too Large - The image exceeds the size limit',
+    schema: {
+      example: {
+        statusCode: 413,
+        message: 'File too large',
+        error: 'Payload Too Large',
+      },
+    },
+  })
+  async updateBanner(
+    @CurrentUser() userId: number,
+    @UploadedFile() file: Express.Multer.File | undefined,
+  ) {
+    return this.usersService.updateProfileImage(userId, 'banner', file);
+  }
+
+  @Get('me/blocks')
+  @UseGuards(JwtAuthGuard)
+  @Scopes(ApiTokenScope.READ)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Get users blocked by the current user',
+    description:
+      'Get a paginated list (20 per page) of the users the current user has blocked, most recently blocked first.',
+  })
+  @ApiQuery({
+    name: 'page',
+    description: 'Page number (default: 1)',
+    required: false,
+    example: 1,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Blocked users retrieved successfully',
+    schema: {
+      example: {
+        users: [
+          {
+            id: 5,
+            name: 'Mallory',
+            username: 'mallory',
+            avatar: null,
+            blocked_at: '2024-01-27T18:20:00.000Z',
+          },
+        ],
+        total: 1,
+        page: 1,
+        totalPages: 1,
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad Request - Invalid query parameters',
+    schema: {
+      example: {
+        statusCode: 400,
+        message: 'page must be a valid integer',
+        error: 'Bad Request',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing access token',
+    schema: {
+      example: {
+        statusCode: 401,
+        message: 'Access token not found',
+        error: 'Unauthorized',
+      },
+    },
+  })
+  async getBlockedUsers(
+    @CurrentUser() userId: number,
+    @Query('page') page?: string,
+  ) {
+    if (page && !/^\d+$/.test(page)) {
+      throw new BadRequestException('page must be a valid integer');
+    }
+    const parsedPage = page ? parseInt(page, 10) : 1;
+    return this.blocksService.getBlockedUsers(userId, parsedPage);
+  }
+
+  @Post(':id/block')
+  @UseGuards(JwtAuthGuard)
+  @Scopes(ApiTokenScope.FOLLOWS_WRITE)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Block a user',
+    description:
+      "Block a user. Follows and pending follow requests between the two users are removed in both directions. Neither user can follow the other or like or comment on the other's posts, and each one's posts, comments, likes and follows are hidden from the other.",
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID of the user to block',
+    example: 5,
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'User blocked successfully',
+    schema: {
+      example: {
+        message: 'User blocked',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad Request - Cannot block yourself',
+    schema: {
+      example: {
+        statusCode: 400,
+        message: 'You cannot block yourself',
+        error: 'Bad Request',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing access token',
+    schema: {
+      example: {
+        statusCode: 401,
+        message: 'Access token not found',
+        error: 'Unauthorized',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'User to block not found',
+    schema: {
+      example: {
+        statusCode: 404,
+        message: 'User not found',
+        error: 'Not Found',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Conflict - User already blocked',
+    schema: {
+      example: {
+        statusCode: 409,
+        message: 'You have already blocked this user',
+        error: 'Conflict',
+      },
+    },
+  })
+  async block(
+    @CurrentUser() userId: number,
+    @Param('id', ParseIntPipe) blockedId: number,
+  ) {
+    return this.blocksService.block(userId, blockedId);
+  }
+
+  @Delete(':id/block')
   @UseGuards(JwtAuthGuard)
+  @Scopes(ApiTokenScope.FOLLOWS_WRITE)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Unblock a user',
+    description:
+      'Remove a block. Follows removed by the block are not restored.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID of the user to unblock',
+    example: 5,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'User unblocked successfully',
+    schema: {
+      example: {
+        message: 'User unblocked',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing access token',
+    schema: {
+      example: {
+        statusCode: 401,
+        message: 'Access token not found',
+        error: 'Unauthorized',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'User is not blocked',
+    schema: {
+      example: {
+        statusCode: 404,
+        message: 'You have not blocked this user',
+        error: 'Not Found',
+      },
+    },
+  })
+  async unblock(
+    @CurrentUser() userId: number,
+    @Param('id', ParseIntPipe) blockedId: number,
+  ) {
+    return this.blocksService.unblock(userId, blockedId);
+  }
+
+  @Patch(':id/role')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Change a user role (admin only)',
+    description:
+      'Grant or revoke a role for another user. Admins cannot change their own role. The user is logged out of every device and gets the new role on their next login.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'User ID',
+    example: 2,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Role updated successfully',
+    schema: {
+      example: {
+        id: 2,
+        name: 'Jane Smith',
+        username: 'jane_smith',
+        description: null,
+        avatar: null,
+        banner: null,
+        email: 'jane.smith@example.com',
+        is_active: true,
+        role: 'admin',
+        created_at: '2024-01-15T10:30:00.000Z',
+        updated_at: '2024-01-26T09:00:00.000Z',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad Request - Cannot change own role',
+    schema: {
+      example: {
+        statusCode: 400,
+        message: 'You cannot change your own role',
+        error: 'Bad Request',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing access token',
+    schema: {
+      example: {
+        statusCode: 401,
+        message: 'Access token not found',
+        error: 'Unauthorized',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Admin role required',
+    schema: {
+      example: {
+        statusCode: 403,
+        message: 'You do not have permission to perform this action',
+        error: 'Forbidden',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'User not found',
+    schema: {
+      example: {
+        statusCode: 404,
+        message: 'User not found',
+        error: 'Not Found',
+      },
+    },
+  })
+  async updateRole(
+    @CurrentUser() adminId: number,
+    @Param('id', ParseIntPipe) id: number,
+    @Body() updateRoleDto: UpdateRoleDto,
+  ) {
+    return this.usersService.updateRole(id, updateRoleDto.role, adminId);
+  }
+
+  @Delete('me')
+  @UseGuards(JwtAuthGuard, ReauthGuard)
+  @RequiresReauth()
   @ApiBearerAuth('JWT-auth')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
     summary: 'Delete current user account',
     description:
-      'Permanently delete the currently authenticated user account. This action cannot be undone. All related data (posts, comments, likes, follows) will be deleted due to cascade delete.',
+      'Deactivate the currently authenticated user account and log it out everywhere. The profile and all of its posts, comments, likes and follows are hidden right away. Logging in again within the grace period (30 days by default) restores the account; after that it is permanently deleted together with all related data. Requires a recent /auth/reauth.',
   })
   @ApiResponse({
     status: 200,
-    description: 'User account deleted successfully',
+    description: 'User account deactivated and scheduled for deletion',
     schema: {
       example: {
-        message: 'Deleted successfully',
+        message: 'Account deactivated. Log in within 30 days to restore it.',
+        deletion_scheduled_at: '2024-02-24T10:30:00.000Z',
       },
     },
   })
@@ -338,6 +876,17 @@ export class UsersController {
       },
     },
   })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Recent re-authentication required',
+    schema: {
+      example: {
+        statusCode: 403,
+        message: 'Please confirm your identity at /auth/reauth to continue',
+        error: 'Forbidden',
+      },
+    },
+  })
   @ApiResponse({
     status: 404,
     description: 'User not found',
@@ -353,8 +902,8 @@ export class UsersController {
     @CurrentUser() userId: number,
     @Res({ passthrough: true }) res: Response,
   ) {
-    const result = await this.usersService.remove(userId);
-    res.clearCookie('refreshToken');
+    const result = await this.usersService.deactivate(userId);
+    this.cookiesService.clearRefreshToken(res);
     return result;
   }
 }
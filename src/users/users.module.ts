@@ -3,13 +3,47 @@ import { UsersService } from './users.service';
 import { UsersController } from './users.controller';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { User } from './entities/user.entity';
+import { Block } from './entities/block.entity';
+import { Follow } from '../follows/entities/follow.entity';
+import { FollowRequest } from '../follows/entities/follow-request.entity';
 import { EmailModule } from '../email/email.module';
 import { JwtModule } from '../jwt/jwt.module';
+import { ApiTokensModule } from '../api-tokens/api-tokens.module';
+import { SessionsModule } from '../sessions/sessions.module';
+import { PasswordPolicyModule } from '../password-policy/password-policy.module';
+import { CookiesModule } from '../cookies/cookies.module';
+import { StorageModule } from '../storage/storage.module';
+import { ProfileImagesService } from './profile-images.service';
+import { BlocksService } from './blocks.service';
+import { MulterModule } from '@nestjs/platform-express';
+import { ConfigService } from '@nestjs/config';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([User]), EmailModule, JwtModule],
+  imports: [
+    TypeOrmModule.forFeature([User, Follow, FollowRequest, Block]),
+    EmailModule,
+    JwtModule,
+    ApiTokensModule,
+    SessionsModule,
+    PasswordPolicyModule,
+    CookiesModule,
+    StorageModule,
+    // Uploads stay in memory until they are resized, so keep them small
+    MulterModule.registerAsync({
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) => ({
+        limits: {
+          fileSize:
+            Number(configService.get('PROFILE_IMAGE_MAX_SIZE_MB', 5)) *
+            1024 *
+            1024,
+          files: 1,
+        },
+      }),
+    }),
+  ],
   controllers: [UsersController],
-  providers: [UsersService],
-  exports: [UsersService],
+  providers: [UsersService, ProfileImagesService, BlocksService],
+  exports: [UsersService, BlocksService],
 })
 export class UsersModule {}
@@ -0,0 +1,63 @@
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { UsersService } from './users.service';
+import { User, UserRole } from './entities/user.entity';
+import { Follow } from '../follows/entities/follow.entity';
+import { FollowRequest } from '../follows/entities/follow-request.entity';
+import { JwtService } from '../jwt/jwt.service';
+import { EmailService } from '../email/email.service';
+import { ConfigService } from '@nestjs/config';
+import { SessionsService } from '../sessions/sessions.service';
+import { PasswordPolicyService } from '../password-policy/password-policy.service';
+import { ProfileImagesService } from './profile-images.service';
+import { BlocksService } from './blocks.service';
+import { ApiTokensService } from '../api-tokens/api-tokens.service';
+
+describe('UsersService', () => {
+  let usersService: UsersService;
+
+  const userRepo = {
+    update: jest.fn(async () => ({ affected: 1 })),
+    findOneOrFail: jest.fn(async () => ({ id: 2, role: UserRole.USER })),
+  };
+
+  beforeEach(async () => {
+    userRepo.update.mockClear();
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        UsersService,
+        { provide: getRepositoryToken(User), useValue: userRepo },
+        { provide: getRepositoryToken(Follow), useValue: {} },
+        { provide: getRepositoryToken(FollowRequest), useValue: {} },
+        { provide: JwtService, useValue: {} },
+        { provide: EmailService, useValue: {} },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+        { provide: SessionsService, useValue: {} },
+        { provide: PasswordPolicyService, useValue: {} },
+        { provide: ProfileImagesService, useValue: {} },
+        { provide: BlocksService, useValue: {} },
+        { provide: ApiTokensService, useValue: {} },
+      ],
+    }).compile();
+
+    usersService = moduleRef.get(UsersService);
+  });
+
+  describe('updateRole', () => {
+    it('increments the token version together with the role', async () => {
+      await usersService.updateRole(2, UserRole.USER, 1);
+
+      expect(userRepo.update).toHaveBeenCalledWith(
+        { id: 2 },
+        { role: UserRole.USER, token_version: expect.any(Function) },
+      );
+
+      const [, changes] = userRepo.update.mock.lastCall as unknown as [
+        unknown,
+        { token_version: () => string },
+      ];
+      expect(changes.token_version()).toBe('token_version + 1');
+    });
+  });
+});
@@ -1,27 +1,50 @@
 import { CreateUserDto } from './dto/create-user.dto';
 import { UpdateUserDto } from './dto/update-user.dto';
 import { InjectRepository } from '@nestjs/typeorm';
-import { User } from './entities/user.entity';
+import {
+  DEFAULT_PROFILE_VISIBILITY,
+  ProfileFieldVisibility,
+  User,
+  UserRole,
+} from './entities/user.entity';
 import { logError } from '../utils/error_logger';
 import bcrypt from 'bcrypt';
+import { randomBytes } from 'crypto';
 import { JwtService } from '../jwt/jwt.service';
 import { EmailService } from '../email/email.service';
 import { errorHandler } from '../utils/error_handler';
+import { SessionsService } from '../sessions/sessions.service';
+import { PasswordPolicyService } from '../password-policy/password-policy.service';
+import { Follow } from '../follows/entities/follow.entity';
+import { FollowRequest } from '../follows/entities/follow-request.entity';
+import {
+  ProfileImageKind,
+  ProfileImagesService,
+} from './profile-images.service';
+import { BlocksService } from './blocks.service';
+import { notBlockedCondition, visibleUsers } from './visible-authors';
 
 import {
   BadRequestException,
   ConflictException,
+  ForbiddenException,
+  HttpException,
+  HttpStatus,
   Injectable,
   NotFoundException,
 } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 
 import {
   EntityNotFoundError,
   FindOptionsWhere,
-  ILike,
-  LessThan,
   Repository,
   Brackets,
+  IsNull,
+  LessThan,
+  In,
+  Raw,
+  Or,
 } from 'typeorm';
 
 interface GetOnePayload {
@@ -33,27 +56,48 @@ interface GetOnePayload {
 interface FindUsersPayload {
   search?: string;
   page?: number;
+  viewerId?: number;
 }
 
 @Injectable()
 export class UsersService {
   constructor(
     @InjectRepository(User) private readonly userRepo: Repository<User>,
+    @InjectRepository(Follow) private readonly followRepo: Repository<Follow>,
+    @InjectRepository(FollowRequest)
+    private readonly followRequestRepo: Repository<FollowRequest>,
     private jwtService: JwtService,
     private emailService: EmailService,
+    private configService: ConfigService,
+    private sessionsService: SessionsService,
+    private passwordPolicyService: PasswordPolicyService,
+    private profileImagesService: ProfileImagesService,
+    private blocksService: BlocksService,
   ) {}
 
   async create(createUserDto: CreateUserDto) {
-    let savedUser: User | undefined;
-
     try {
       if (createUserDto.password !== createUserDto.confirm_password) {
         throw new BadRequestException('Passwords do not match');
       }
 
+      this.passwordPolicyService.assertValid(createUserDto.password, {
+        username: createUserDto.username,
+        email: createUserDto.email,
+        name: createUserDto.name,
+      });
+
+      // An unactivated account with the same email is an abandoned signup,
+      // so the new registration takes its place
+      const pendingUser = await this.userRepo.findOneBy({
+        email: createUserDto.email.toLowerCase(),
+        is_active: false,
+      });
+
       const { emailAvailable, usernameAvailable } = await this.isAvailable(
         createUserDto.username,
         createUserDto.email,
+        pendingUser?.id,
       );
 
       if (!usernameAvailable && !emailAvailable) {
@@ -68,41 +112,134 @@ export class UsersService {
 
       const hashedPassword = await bcrypt.hash(createUserDto.password, 10);
 
-      const user = this.userRepo.create({
-        name: createUserDto.name,
-        username: createUserDto.username,
-        description: createUserDto.description || null,
-        email: createUserDto.email.toLowerCase(),
-        hashed_password: hashedPassword,
+      // If the activation email cannot be sent, the new account is rolled
+      // back and the pending signup it replaced is kept
+      const savedUser = await this.userRepo.manager.transaction(
+        async (manager) => {
+          if (pendingUser) {
+            await manager.remove(pendingUser);
+          }
+
+          const user = await manager.save(
+            manager.create(User, {
+              name: createUserDto.name,
+              username: createUserDto.username,
+              description: createUserDto.description || null,
+              email: createUserDto.email.toLowerCase(),
+              hashed_password: hashedPassword,
+              is_active: false,
+              activation_sent_at: new Date(),
+            }),
+          );
+
+          await this.sendActivationEmail(user);
+
+          return user;
+        },
+      );
+
+      const {
+        hashed_password,
+        two_factor_secret,
+        two_factor_recovery_codes,
+        ...sanitizedUser
+      } = savedUser;
+
+      return sanitizedUser as User;
+    } catch (error) {
+      errorHandler(error, 'UserService.create');
+    }
+  }
+
+  /**
+   * Creates an already active account for someone whose email was verified
+   * by an external identity provider. The random password can only be
+   * replaced through the password reset flow.
+   */
+  async createActivated(payload: {
+    name: string;
+    username: string;
+    email: string;
+  }) {
+    try {
+      const pendingUser = await this.userRepo.findOneBy({
+        email: payload.email.toLowerCase(),
         is_active: false,
       });
 
-      savedUser = await this.userRepo.save(user);
+      const { emailAvailable, usernameAvailable } = await this.isAvailable(
+        payload.username,
+        payload.email,
+        pendingUser?.id,
+      );
 
-      const activationToken = this.jwtService.generateActivationToken({
-        userId: savedUser.id,
-      });
+      if (!emailAvailable) {
+        throw new ConflictException(
+          'An account with this email already exists. Log in and link the provider instead.',
+        );
+      }
+      if (!usernameAvailable) {
+        throw new ConflictException('Username already exists');
+      }
 
-      await this.emailService.sendActivationEmail(
-        savedUser.email,
-        savedUser.username,
-        activationToken,
+      const hashedPassword = await bcrypt.hash(
+        randomBytes(32).toString('hex'),
+        10,
       );
 
-      const { hashed_password, hashed_refresh_token, ...sanitizedUser } =
-        savedUser;
+      if (pendingUser) {
+        await this.userRepo.remove(pendingUser);
+      }
 
-      return sanitizedUser as User;
+      const user = this.userRepo.create({
+        name: payload.name,
+        username: payload.username,
+        description: null,
+        email: payload.email.toLowerCase(),
+        hashed_password: hashedPassword,
+        is_active: true,
+      });
+
+      return await this.userRepo.save(user);
     } catch (error) {
-      if (savedUser) {
-        try {
-          await this.userRepo.remove(savedUser);
-        } catch (cleanupError) {
-          logError(cleanupError, 'UsersService.create - cleanup failed');
-        }
+      errorHandler(error, 'UsersService.createActivated');
+    }
+  }
+
+  async resendActivation(email: string) {
+    try {
+      const user = await this.userRepo.findOneBy({
+        email: email.toLowerCase(),
+        is_active: false,
+      });
+
+      if (!user) {
+        return;
       }
 
-      errorHandler(error, 'UserService.create');
+      const cooldownSeconds = this.configService.get<number>(
+        'ACTIVATION_RESEND_COOLDOWN',
+        60,
+      );
+      const nextAllowedAt =
+        (user.activation_sent_at ?? user.created_at).getTime() +
+        cooldownSeconds * 1000;
+
+      if (Date.now() < nextAllowedAt) {
+        throw new HttpException(
+          `Please wait ${Math.ceil((nextAllowedAt - Date.now()) / 1000)} seconds before requesting another activation email`,
+          HttpStatus.TOO_MANY_REQUESTS,
+        );
+      }
+
+      await this.userRepo.update(
+        { id: user.id },
+        { activation_sent_at: new Date() },
+      );
+
+      await this.sendActivationEmail(user);
+    } catch (error) {
+      errorHandler(error, 'UsersService.resendActivation');
     }
   }
 
@@ -118,12 +255,17 @@ export class UsersService {
 
       const where: FindOptionsWhere<User> = {};
 
+      // Deactivated accounts are hidden until they are restored or purged
+      where.deactivated_at = IsNull();
+
       if (id) {
         where.id = id;
       } else if (email) {
         where.email = email.toLocaleLowerCase();
       } else if (username) {
-        where.username = ILike(username);
+        where.username = Raw((alias) => `LOWER(${alias}) = LOWER(:username)`, {
+          username,
+        });
       }
 
       const user = await this.userRepo.findOneOrFail({
@@ -132,8 +274,18 @@ export class UsersService {
           'name',
           'username',
           'description',
+          'avatar',
+          'banner',
+          'website',
+          'location',
+          'pronouns',
+          'birthday',
+          'links',
+          'profile_visibility',
+          'is_private',
           'email',
           'is_active',
+          'role',
           'created_at',
           'updated_at',
         ],
@@ -149,6 +301,167 @@ export class UsersService {
     }
   }
 
+  /**
+   * Public view of a profile. Fields limited to followers are shown to
+   * users who follow the owner, private ones only to the owner.
+   */
+  async getProfile(id: number, viewerId?: number) {
+    await this.assertProfileVisible(id, viewerId);
+
+    const user = await this.getOne({ id });
+    const [profile] = await this.addViewerFields([user], viewerId);
+
+    if (viewerId === id) {
+      return profile;
+    }
+
+    const { profile_visibility, ...publicProfile } = profile;
+    const visibility = {
+      ...DEFAULT_PROFILE_VISIBILITY,
+      ...profile_visibility,
+    };
+
+    for (const field of Object.keys(visibility) as Array<
+      keyof typeof visibility
+    >) {
+      const visible =
+        visibility[field] === ProfileFieldVisibility.PUBLIC ||
+        (visibility[field] === ProfileFieldVisibility.FOLLOWERS &&
+          !!profile.is_following);
+
+      if (!visible) {
+        publicProfile[field] = null;
+      }
+    }
+
+    return publicProfile;
+  }
+
+  /**
+   * Answers like a missing account when the user is deactivated or there is
+   * a block in either direction between them and the viewer.
+   */
+  async assertProfileVisible(id: number, viewerId?: number) {
+    try {
+      const visible = await this.userRepo.existsBy(
+        viewerId === id
+          ? { id, deactivated_at: IsNull() }
+          : { id, ...visibleUsers(viewerId) },
+      );
+
+      if (!visible) {
+        throw new NotFoundException('User not found');
+      }
+    } catch (error) {
+      errorHandler(error, 'UsersService.assertProfileVisible');
+    }
+  }
+
+  /**
+   * Throws unless the viewer may see the posts, likes and follow lists of
+   * the owner: anyone for public accounts, only the owner and approved
+   * followers for private ones, and nobody with a block between them and
+   * the owner.
+   */
+  async assertContentVisible(ownerId: number, viewerId?: number) {
+    try {
+      const owner = await this.userRepo.findOne({
+        where: { id: ownerId, deactivated_at: IsNull() },
+        select: { id: true, is_private: true },
+      });
+
+      if (!owner) {
+        throw new NotFoundException('User not found');
+      }
+
+      if (owner.id === viewerId) {
+        return;
+      }
+
+      if (viewerId && (await this.blocksService.isBlocked(viewerId, ownerId))) {
+        throw new ForbiddenException('You cannot view this account');
+      }
+
+      if (!owner.is_private) {
+        return;
+      }
+
+      const isFollower =
+        !!viewerId &&
+        (await this.followRepo.existsBy({
+          follower: { id: viewerId },
+          followed: { id: ownerId },
+        }));
+
+      if (!isFollower) {
+        throw new ForbiddenException('This account is private');
+      }
+    } catch (error) {
+      errorHandler(error, 'UserService.assertContentVisible');
+    }
+  }
+
+  /**
+   * Adds is_following, follows_me and follow_requested for the viewer to
+   * each user, loading the relationships of the whole list at once.
+   * Anonymous viewers get the users back unchanged.
+   */
+  async addViewerFields<T extends { id: number }>(
+    users: T[],
+    viewerId?: number,
+  ): Promise<
+    (T & {
+      is_following?: boolean;
+      follows_me?: boolean;
+      follow_requested?: boolean;
+    })[]
+  > {
+    try {
+      if (!viewerId || users.length === 0) {
+        return users;
+      }
+
+      const userIds = users.map((user) => user.id);
+      const [follows, requests] = await Promise.all([
+        this.followRepo.find({
+          where: [
+            { follower: { id: viewerId }, followed: { id: In(userIds) } },
+            { follower: { id: In(userIds) }, followed: { id: viewerId } },
+          ],
+          relations: ['follower', 'followed'],
+          select: { id: true, follower: { id: true }, followed: { id: true } },
+        }),
+        this.followRequestRepo.find({
+          where: { requester: { id: viewerId }, target: { id: In(userIds) } },
+          relations: ['target'],
+          select: { id: true, target: { id: true } },
+        }),
+      ]);
+      const requested = new Set(requests.map((request) => request.target.id));
+
+      const following = new Set<number>();
+      const followers = new Set<number>();
+
+      for (const follow of follows) {
+        if (follow.follower.id === viewerId) {
+          following.add(follow.followed.id);
+        }
+        if (follow.followed.id === viewerId) {
+          followers.add(follow.follower.id);
+        }
+      }
+
+      return users.map((user) => ({
+        ...user,
+        is_following: following.has(user.id),
+        follows_me: followers.has(user.id),
+        follow_requested: requested.has(user.id),
+      }));
+    } catch (error) {
+      errorHandler(error, 'UserService.addViewerFields');
+    }
+  }
+
   async findUsers(payload: FindUsersPayload): Promise<{
     users: User[];
     total: number;
@@ -156,7 +469,7 @@ export class UsersService {
     totalPages: number;
   }> {
     try {
-      const { search, page = 1 } = payload;
+      const { search, page = 1, viewerId } = payload;
 
       const take = 20;
       const skip = (Math.max(1, page) - 1) * take;
@@ -172,11 +485,17 @@ export class UsersService {
           'user.name',
           'user.username',
           'user.description',
+          'user.avatar',
           'user.created_at',
         ])
         .where('user.is_active = :isActive', { isActive: true })
+        .andWhere('user.deactivated_at IS NULL')
         .orderBy('user.created_at', 'DESC');
 
+      if (viewerId) {
+        queryBuilder.andWhere(notBlockedCondition('user.id'), { viewerId });
+      }
+
       queryBuilder.andWhere(
         new Brackets((qb) => {
           qb.where('LOWER(user.username) LIKE LOWER(:search)', {
@@ -194,7 +513,7 @@ export class UsersService {
         .getManyAndCount();
 
       return {
-        users,
+        users: await this.addViewerFields(users, viewerId),
         total,
         page: Math.max(1, page),
         totalPages: Math.ceil(total / take),
@@ -206,10 +525,16 @@ export class UsersService {
 
   async getUserForAuth(identifier: string): Promise<User | null> {
     try {
+      // Exact, case-insensitive match: LIKE wildcards would let one account
+      // be reached through many spellings
       const user = await this.userRepo.findOne({
         where: [
           { email: identifier.toLowerCase() },
-          { username: ILike(identifier) },
+          {
+            username: Raw((alias) => `LOWER(${alias}) = LOWER(:identifier)`, {
+              identifier,
+            }),
+          },
         ],
       });
 
@@ -228,7 +553,7 @@ export class UsersService {
   }
 
   async existsBy(id: number) {
-    return await this.userRepo.existsBy({ id });
+    return await this.userRepo.existsBy({ id, deactivated_at: IsNull() });
   }
 
   async activateUser(userId: number) {
@@ -248,43 +573,366 @@ export class UsersService {
         }
       }
 
-      const updateRes = await this.userRepo.update({ id }, updateUserDto);
+      const { profile_visibility, links, ...fields } = updateUserDto;
 
-      if (updateRes.affected === 0) {
+      if (fields.birthday && new Date(fields.birthday) > new Date()) {
+        throw new BadRequestException('birthday must be in the past');
+      }
+
+      const user = await this.userRepo.findOne({
+        where: { id, deactivated_at: IsNull() },
+        select: { id: true, profile_visibility: true, is_private: true },
+      });
+
+      if (!user) {
         throw new NotFoundException('User not found');
       }
 
+      // Going public lets in everyone who was waiting for approval
+      if (user.is_private && fields.is_private === false) {
+        await this.acceptPendingFollowRequests(id);
+      }
+
+      await this.userRepo.update(
+        { id },
+        {
+          ...fields,
+          ...(links !== undefined && {
+            links: (links ?? []).map(({ label, url }) => ({ label, url })),
+          }),
+          ...(profile_visibility && {
+            // Only the fields sent are changed
+            profile_visibility: {
+              ...DEFAULT_PROFILE_VISIBILITY,
+              ...user.profile_visibility,
+              ...profile_visibility,
+            },
+          }),
+        },
+      );
+
       return this.getOne({ id });
     } catch (error) {
       errorHandler(error, 'UserService.update');
     }
   }
 
-  async updateRefreshToken(userId: number, refreshToken: string | null) {
+  private async acceptPendingFollowRequests(userId: number) {
+    const requests = await this.followRequestRepo.find({
+      where: { target: { id: userId } },
+      relations: ['requester'],
+      select: { id: true, requester: { id: true } },
+    });
+
+    if (requests.length === 0) {
+      return;
+    }
+
+    await this.followRepo
+      .createQueryBuilder()
+      .insert()
+      .values(
+        requests.map((request) => ({
+          follower: { id: request.requester.id },
+          followed: { id: userId },
+        })),
+      )
+      .orIgnore()
+      .execute();
+    await this.followRequestRepo.delete({ target: { id: userId } });
+  }
+
+  /**
+   * Replaces the avatar or banner. The previous files are deleted only after
+   * the user row points at the new ones.
+   */
+  async updateProfileImage(
+    id: number,
+    kind: ProfileImageKind,
+    file: Express.Multer.File | undefined,
+  ) {
     try {
-      const hashedRefreshToken = refreshToken
-        ? await bcrypt.hash(refreshToken, 10)
-        : null;
+      const keyColumn = kind === 'avatar' ? 'avatar_key' : 'banner_key';
+      const user = await this.userRepo.findOne({
+        where: { id, deactivated_at: IsNull() },
+        select: { id: true, [keyColumn]: true },
+      });
 
-      await this.userRepo.update(
-        { id: userId },
-        { hashed_refresh_token: hashedRefreshToken },
+      if (!user) {
+        throw new NotFoundException('User not found');
+      }
+
+      const { key, urls } = await this.profileImagesService.store(
+        id,
+        kind,
+        file,
       );
+
+      await this.userRepo.update({ id }, { [kind]: urls, [keyColumn]: key });
+
+      const previousKey = user[keyColumn];
+
+      if (previousKey) {
+        await this.profileImagesService
+          .remove(kind, previousKey)
+          .catch((error) =>
+            logError(error, 'UsersService.updateProfileImage - cleanup failed'),
+          );
+      }
+
+      return { [kind]: urls };
     } catch (error) {
-      errorHandler(error, 'UserService.updateRefreshToken');
+      errorHandler(error, 'UsersService.updateProfileImage');
     }
   }
 
-  async updatePassword(userId: number, password: string) {
+  async updateRole(id: number, role: UserRole, adminId: number) {
+    try {
+      if (id === adminId) {
+        throw new BadRequestException('You cannot change your own role');
+      }
+
+      // Tokens issued with the previous role stop working right away
+      const updateRes = await this.userRepo.update(
+        { id },
+        { role, token_version: () => 'token_version + 1' },
+      );
+
+      if (updateRes.affected === 0) {
+        throw new NotFoundException('User not found');
+      }
+
+      return this.getOne({ id });
+    } catch (error) {
+      errorHandler(error, 'UsersService.updateRole');
+    }
+  }
+
+  /**
+   * Sets a new password and revokes tokens issued before it. Returns the new
+   * token version, read back from the same update.
+   */
+  async updatePassword(userId: number, password: string): Promise<number> {
     try {
       const hashed_password = await bcrypt.hash(password, 10);
 
-      await this.userRepo.update({ id: userId }, { hashed_password });
+      const { raw } = await this.userRepo
+        .createQueryBuilder()
+        .update()
+        .set({ hashed_password, token_version: () => 'token_version + 1' })
+        .where('id = :userId', { userId })
+        .returning('token_version')
+        .execute();
+
+      return raw[0].token_version;
     } catch (error) {
       errorHandler(error, 'UsersService.updatePassword');
     }
   }
 
+  /**
+   * Replaces the password with a random one so only a password reset gets
+   * the owner back in, optionally restoring the previous email address.
+   * Returns the new password hash.
+   */
+  async secureAccount(userId: number, restoreEmail?: string) {
+    try {
+      const hashed_password = await bcrypt.hash(
+        randomBytes(32).toString('hex'),
+        10,
+      );
+
+      await this.userRepo.update(
+        { id: userId },
+        {
+          hashed_password,
+          token_version: () => 'token_version + 1',
+          secured_at: new Date(),
+          ...(restoreEmail && { email: restoreEmail.toLowerCase() }),
+        },
+      );
+
+      return hashed_password;
+    } catch (error) {
+      errorHandler(error, 'UsersService.secureAccount');
+    }
+  }
+
+  /**
+   * Records that a password reset email goes out, unless one was sent
+   * within PASSWORD_RESET_COOLDOWN seconds. Like setMagicLinkId this is one
+   * conditional update; returns false while the cooldown lasts.
+   */
+  async markPasswordResetSent(userId: number) {
+    try {
+      const cooldownSeconds = this.configService.get<number>(
+        'PASSWORD_RESET_COOLDOWN',
+        60,
+      );
+      const now = new Date();
+
+      const { affected } = await this.userRepo.update(
+        {
+          id: userId,
+          password_reset_sent_at: Or(
+            IsNull(),
+            LessThan(new Date(now.getTime() - cooldownSeconds * 1000)),
+          ),
+        },
+        { password_reset_sent_at: now },
+      );
+
+      return affected === 1;
+    } catch (error) {
+      errorHandler(error, 'UsersService.markPasswordResetSent');
+    }
+  }
+
+  /**
+   * Stores the id of a new magic link unless one was sent within
+   * MAGIC_LINK_COOLDOWN seconds. The check and the update are one
+   * conditional update, so concurrent requests send a single email.
+   * Returns false while the cooldown lasts.
+   */
+  async setMagicLinkId(userId: number, linkId: string) {
+    try {
+      const cooldownSeconds = this.configService.get<number>(
+        'MAGIC_LINK_COOLDOWN',
+        60,
+      );
+      const now = new Date();
+
+      const { affected } = await this.userRepo.update(
+        {
+          id: userId,
+          magic_link_sent_at: Or(
+            IsNull(),
+            LessThan(new Date(now.getTime() - cooldownSeconds * 1000)),
+          ),
+        },
+        { magic_link_id: linkId, magic_link_sent_at: now },
+      );
+
+      return affected === 1;
+    } catch (error) {
+      errorHandler(error, 'UsersService.setMagicLinkId');
+    }
+  }
+
+  /**
+   * Clears the magic link id in a single conditional update, so concurrent
+   * requests with the same link cannot both succeed.
+   */
+  async consumeMagicLinkId(userId: number, linkId: string) {
+    try {
+      const result = await this.userRepo.update(
+        { id: userId, magic_link_id: linkId },
+        { magic_link_id: null },
+      );
+
+      return result.affected === 1;
+    } catch (error) {
+      errorHandler(error, 'UsersService.consumeMagicLinkId');
+    }
+  }
+
+  async setTwoFactorChallengeId(userId: number, challengeId: string | null) {
+    try {
+      await this.userRepo.update(
+        { id: userId },
+        { two_factor_challenge_id: challengeId },
+      );
+    } catch (error) {
+      errorHandler(error, 'UsersService.setTwoFactorChallengeId');
+    }
+  }
+
+  async hasTwoFactorChallengeId(userId: number, challengeId: string) {
+    try {
+      return await this.userRepo.existsBy({
+        id: userId,
+        two_factor_challenge_id: challengeId,
+      });
+    } catch (error) {
+      errorHandler(error, 'UsersService.hasTwoFactorChallengeId');
+    }
+  }
+
+  /**
+   * Clears the challenge id in a single conditional update, so concurrent
+   * requests with the same challenge cannot both succeed.
+   */
+  async consumeTwoFactorChallengeId(userId: number, challengeId: string) {
+    try {
+      const result = await this.userRepo.update(
+        { id: userId, two_factor_challenge_id: challengeId },
+        { two_factor_challenge_id: null },
+      );
+
+      return result.affected === 1;
+    } catch (error) {
+      errorHandler(error, 'UsersService.consumeTwoFactorChallengeId');
+    }
+  }
+
+  async setTwoFactorSecret(
+    userId: number,
+    secret: string,
+    hashedRecoveryCodes: string[],
+  ) {
+    try {
+      await this.userRepo.update(
+        { id: userId },
+        {
+          two_factor_enabled: false,
+          two_factor_secret: secret,
+          two_factor_recovery_codes: hashedRecoveryCodes,
+          two_factor_last_step: null,
+        },
+      );
+    } catch (error) {
+      errorHandler(error, 'UsersService.setTwoFactorSecret');
+    }
+  }
+
+  async enableTwoFactor(userId: number, step: number) {
+    try {
+      await this.userRepo.update(
+        { id: userId },
+        { two_factor_enabled: true, two_factor_last_step: step },
+      );
+    } catch (error) {
+      errorHandler(error, 'UsersService.enableTwoFactor');
+    }
+  }
+
+  async disableTwoFactor(userId: number) {
+    try {
+      await this.userRepo.update(
+        { id: userId },
+        {
+          two_factor_enabled: false,
+          two_factor_secret: null,
+          two_factor_recovery_codes: null,
+          two_factor_last_step: null,
+        },
+      );
+    } catch (error) {
+      errorHandler(error, 'UsersService.disableTwoFactor');
+    }
+  }
+
+  async updateTwoFactorState(
+    userId: number,
+    state: Pick<User, 'two_factor_last_step' | 'two_factor_recovery_codes'>,
+  ) {
+    try {
+      await this.userRepo.update({ id: userId }, state);
+    } catch (error) {
+      errorHandler(error, 'UsersService.updateTwoFactorState');
+    }
+  }
+
   async updateEmail(userId: number, email: string) {
     try {
       await this.userRepo.update({ id: userId }, { email });
@@ -293,17 +941,112 @@ export class UsersService {
     }
   }
 
-  async remove(id: number) {
+  /**
+   * Hides the account and its content and logs it out everywhere. Logging in
+   * again within the grace period restores it, otherwise TasksService purges
+   * it for good.
+   */
+  async deactivate(id: number) {
     try {
-      const deleteRes = await this.userRepo.delete({ id });
+      const user = await this.userRepo.findOneBy({
+        id,
+        deactivated_at: IsNull(),
+      });
 
-      if (deleteRes.affected === 0) {
+      if (!user) {
         throw new NotFoundException('User not found');
       }
 
-      return { message: 'Deleted successfully' };
+      const graceDays = this.getDeletionGraceDays();
+      const deactivatedAt = new Date();
+
+      await this.userRepo.update(
+        { id },
+        { deactivated_at: deactivatedAt, magic_link_id: null },
+      );
+      await this.sessionsService.removeAllForUser(id);
+
+      const deletionScheduledAt = new Date(deactivatedAt);
+      deletionScheduledAt.setDate(deletionScheduledAt.getDate() + graceDays);
+
+      // Delivery problems are logged by EmailService and must not undo the deactivation
+      this.emailService
+        .sendAccountDeactivatedEmail(user.email, user.username, graceDays)
+        .catch(() => {});
+
+      return {
+        message: `Account deactivated. Log in within ${graceDays} days to restore it.`,
+        deletion_scheduled_at: deletionScheduledAt,
+      };
+    } catch (error) {
+      errorHandler(error, 'UsersService.deactivate');
+    }
+  }
+
+  async reactivate(id: number) {
+    try {
+      await this.userRepo.update({ id }, { deactivated_at: null });
+    } catch (error) {
+      errorHandler(error, 'UsersService.reactivate');
+    }
+  }
+
+  isPastDeletionGracePeriod(user: User) {
+    if (!user.deactivated_at) {
+      return false;
+    }
+
+    const deadline = new Date(user.deactivated_at);
+    deadline.setDate(deadline.getDate() + this.getDeletionGraceDays());
+
+    return deadline.getTime() <= Date.now();
+  }
+
+  async purgeDeactivatedUsers() {
+    try {
+      const cutoff = new Date();
+      cutoff.setDate(cutoff.getDate() - this.getDeletionGraceDays());
+
+      const users = await this.userRepo.find({
+        where: { deactivated_at: LessThan(cutoff) },
+        select: {
+          id: true,
+          email: true,
+          username: true,
+          avatar_key: true,
+          banner_key: true,
+        },
+      });
+
+      for (const user of users) {
+        await this.userRepo.delete({ id: user.id });
+        await this.removeProfileImages(user);
+
+        this.emailService
+          .sendAccountDeletedEmail(user.email, user.username)
+          .catch(() => {});
+      }
+
+      return users.length;
     } catch (error) {
-      errorHandler(error, 'UserService.remove');
+      errorHandler(error, 'UsersService.purgeDeactivatedUsers');
+    }
+  }
+
+  private async removeProfileImages(user: User) {
+    const images: [ProfileImageKind, string | null][] = [
+      ['avatar', user.avatar_key],
+      ['banner', user.banner_key],
+    ];
+
+    for (const [kind, key] of images) {
+      if (key) {
+        await this.profileImagesService
+          .remove(kind, key)
+          .catch((error) =>
+            logError(error, 'UsersService.removeProfileImages'),
+          );
+      }
     }
   }
 
@@ -345,14 +1088,36 @@ export class UsersService {
       const twentyFourHoursAgo = new Date();
       twentyFourHoursAgo.setHours(twentyFourHoursAgo.getHours() - 24);
 
-      const result = await this.userRepo.delete({
-        is_active: false,
-        created_at: LessThan(twentyFourHoursAgo),
-      });
+      // A resent activation email restarts the 24 hour window
+      const result = await this.userRepo
+        .createQueryBuilder()
+        .delete()
+        .from(User)
+        .where('is_active = false')
+        .andWhere('COALESCE(activation_sent_at, created_at) < :cutoff', {
+          cutoff: twentyFourHoursAgo,
+        })
+        .execute();
 
       return result.affected || 0;
     } catch (error) {
       errorHandler(error, 'UserService.deleteUnactivateUsers');
     }
   }
+
+  private getDeletionGraceDays() {
+    return Number(this.configService.get('ACCOUNT_DELETION_GRACE_DAYS', 30));
+  }
+
+  private async sendActivationEmail(user: User) {
+    const activationToken = this.jwtService.generateActivationToken({
+      userId: user.id,
+    });
+
+    await this.emailService.sendActivationEmail(
+      user.email,
+      user.username,
+      activationToken,
+    );
+  }
 }
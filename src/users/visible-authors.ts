@@ -0,0 +1,80 @@
+import { FindOptionsWhere, IsNull, Raw } from 'typeorm';
+import { User } from './entities/user.entity';
+
+// Ids of the users with a block in either direction between them and the viewer
+const BLOCKED_IDS =
+  '(SELECT "blockedId" FROM blocks WHERE "blockerId" = :viewerId UNION SELECT "blockerId" FROM blocks WHERE "blockedId" = :viewerId)';
+
+const FOLLOWED_IDS =
+  '(SELECT "followedId" FROM follows WHERE "followerId" = :viewerId)';
+
+// Ids of the users the viewer has muted, while the mute lasts
+const MUTED_IDS =
+  '(SELECT "mutedId" FROM muted_users WHERE "muterId" = :viewerId AND (expires_at IS NULL OR expires_at > now()))';
+
+export interface VisibilityOptions {
+  // Also leave out the accounts the viewer has muted, for feeds and listings
+  excludeMuted?: boolean;
+}
+
+function mutedCondition(alias: string, options: VisibilityOptions) {
+  return options.excludeMuted ? ` AND ${alias} NOT IN ${MUTED_IDS}` : '';
+}
+
+/**
+ * Conditions on an author for content the viewer may see: public accounts,
+ * the private accounts the viewer follows and the viewer's own account.
+ * Each one goes into its own element of a `where` array so they are ORed.
+ * Deactivated accounts and accounts blocked either way never match.
+ */
+export function visibleAuthors(
+  viewerId?: number,
+  options: VisibilityOptions = {},
+): FindOptionsWhere<User>[] {
+  if (!viewerId) {
+    return [{ deactivated_at: IsNull(), is_private: false }];
+  }
+
+  return [
+    { ...visibleUsers(viewerId, options), is_private: false },
+    {
+      deactivated_at: IsNull(),
+      // A block removes the follows between the two users
+      id: Raw(
+        (alias) =>
+          `${alias} IN ${FOLLOWED_IDS}` + mutedCondition(alias, options),
+        { viewerId },
+      ),
+    },
+    { deactivated_at: IsNull(), id: viewerId },
+  ];
+}
+
+/**
+ * The same block check for query builders, on the given user id column.
+ * Needs the viewerId parameter.
+ */
+export function notBlockedCondition(column: string) {
+  return `${column} NOT IN ${BLOCKED_IDS}`;
+}
+
+/**
+ * Condition on a user shown in a listing, such as a liker, a commenter or a
+ * follower: active accounts without a block between them and the viewer.
+ */
+export function visibleUsers(
+  viewerId?: number,
+  options: VisibilityOptions = {},
+): FindOptionsWhere<User> {
+  if (!viewerId) {
+    return { deactivated_at: IsNull() };
+  }
+
+  return {
+    deactivated_at: IsNull(),
+    id: Raw(
+      (alias) => notBlockedCondition(alias) + mutedCondition(alias, options),
+      { viewerId },
+    ),
+  };
+}
@@ -0,0 +1,22 @@
+import { describeDuration } from './duration';
+
+describe('describeDuration', () => {
+  it('describes expiration settings in words', () => {
+    expect(describeDuration('15m')).toBe('15 minutes');
+    expect(describeDuration('1h')).toBe('1 hour');
+    expect(describeDuration('90m')).toBe('90 minutes');
+    expect(describeDuration('7d')).toBe('7 days');
+    expect(describeDuration('2 days')).toBe('2 days');
+    expect(describeDuration('1w')).toBe('7 days');
+  });
+
+  it('reads numbers as seconds and unitless strings as milliseconds', () => {
+    expect(describeDuration(3600)).toBe('1 hour');
+    expect(describeDuration('60000')).toBe('1 minute');
+  });
+
+  it('returns values it cannot read unchanged', () => {
+    expect(describeDuration('soon')).toBe('soon');
+    expect(describeDuration('3 fortnights')).toBe('3 fortnights');
+  });
+});
@@ -0,0 +1,46 @@
+const UNIT_SECONDS: [RegExp, number][] = [
+  [/^(ms|msecs?|milliseconds?)$/, 0.001],
+  [/^(s|secs?|seconds?)$/, 1],
+  [/^(m|mins?|minutes?)$/, 60],
+  [/^(h|hrs?|hours?)$/, 60 * 60],
+  [/^(d|days?)$/, 24 * 60 * 60],
+  [/^(w|weeks?)$/, 7 * 24 * 60 * 60],
+];
+
+const UNIT_NAMES: [string, number][] = [
+  ['day', 24 * 60 * 60],
+  ['hour', 60 * 60],
+  ['minute', 60],
+  ['second', 1],
+];
+
+/**
+ * Describes a JWT expiration setting such as "15m", "2 days" or 3600 in
+ * words for emails, e.g. "15 minutes". Like the JWT library, plain numbers
+ * are seconds and unitless strings are milliseconds. Values it cannot read
+ * are returned as they are.
+ */
+export function describeDuration(value: string | number | undefined) {
+  const match = /^(\d+(?:\.\d+)?)\s*([a-z]*)$/i.exec(String(value).trim());
+
+  if (!match) {
+    return String(value);
+  }
+
+  const [, amount, unit] = match;
+  const unitSeconds = unit
+    ? UNIT_SECONDS.find(([pattern]) => pattern.test(unit.toLowerCase()))?.[1]
+    : typeof value === 'number'
+      ? 1
+      : 0.001;
+
+  if (unitSeconds === undefined) {
+    return String(value);
+  }
+
+  const seconds = Math.max(1, Math.round(Number(amount) * unitSeconds));
+  const [name, size] = UNIT_NAMES.find(([, size]) => seconds % size === 0)!;
+  const count = seconds / size;
+
+  return `${count} ${name}${count === 1 ? '' : 's'}`;
+}
@@ -0,0 +1,32 @@
+/**
+ * Normalizes a user-entered web address: adds https:// when the scheme is
+ * missing, lowercases the host and drops the trailing slash of a bare
+ * domain. Values that cannot be parsed are returned trimmed so validation
+ * can reject them.
+ */
+export function normalizeUrl(value: unknown) {
+  if (typeof value !== 'string') {
+    return value;
+  }
+
+  const trimmed = value.trim();
+
+  if (!trimmed) {
+    return null;
+  }
+
+  const withScheme = /^[a-z][a-z0-9+.-]*:/i.test(trimmed)
+    ? trimmed
+    : `https://${trimmed}`;
+
+  try {
+    const url = new URL(withScheme);
+    const normalized = url.toString();
+
+    return url.pathname === '/' && !url.search && !url.hash
+      ? normalized.replace(/\/$/, '')
+      : normalized;
+  } catch {
+    return trimmed;
+  }
+}
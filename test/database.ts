@@ -0,0 +1,40 @@
+import { join } from 'path';
+import { newDb } from 'pg-mem';
+import { DataSource } from 'typeorm';
+import { getRepositoryToken } from '@nestjs/typeorm';
+
+/**
+ * In-memory Postgres (pg-mem) with the schema of every entity, for specs
+ * that need real queries, constraints and upserts without a database server.
+ */
+export async function createTestDataSource(): Promise<DataSource> {
+  const db = newDb({ autoCreateForeignKeyIndices: true });
+
+  // Called by TypeORM while connecting
+  db.public.registerFunction({
+    name: 'current_database',
+    implementation: () => 'test',
+  });
+  db.public.registerFunction({
+    name: 'version',
+    implementation: () => 'PostgreSQL 16',
+  });
+
+  const dataSource: DataSource = await db.adapters.createTypeormDataSource({
+    type: 'postgres',
+    entities: [join(__dirname, '../src/**/*.entity.ts')],
+  });
+
+  await dataSource.initialize();
+  await dataSource.synchronize();
+
+  return dataSource;
+}
+
+// A repository provider for every entity, to stand in for TypeOrmModule.forFeature
+export function repositoryProviders(dataSource: DataSource) {
+  return dataSource.entityMetadatas.map(({ target }) => ({
+    provide: getRepositoryToken(target as Function),
+    useValue: dataSource.getRepository(target),
+  }));
+}
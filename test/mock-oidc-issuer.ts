@@ -0,0 +1,181 @@
+import { createHash, generateKeyPairSync, randomBytes, sign } from 'crypto';
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+
+export interface MockIdTokenClaims {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+  preferred_username?: string;
+}
+
+// Deliberately wrong ID token fields, to test that the client rejects them
+export interface MockIdTokenOverrides {
+  iss?: string;
+  aud?: string;
+  nonce?: string;
+}
+
+interface PendingCode {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  nonce: string;
+  claims: MockIdTokenClaims;
+  overrides: MockIdTokenOverrides;
+}
+
+const KID = 'mock-key';
+
+/**
+ * OpenID Connect issuer on a random local port with discovery, JWKS and a
+ * token endpoint that enforces PKCE. `authorize` stands in for the user
+ * signing in at the provider and returns what the browser would bring back
+ * to the callback.
+ */
+export class MockOidcIssuer {
+  issuer: string;
+
+  private server: Server;
+  private codes = new Map<string, PendingCode>();
+  private keys = generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+  async start() {
+    this.server = createServer((req, res) => {
+      void this.handle(req).then(({ status, body }) => {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(body));
+      });
+    });
+
+    await new Promise<void>((resolve) =>
+      this.server.listen(0, '127.0.0.1', resolve),
+    );
+
+    const { port } = this.server.address() as AddressInfo;
+    this.issuer = `http://127.0.0.1:${port}`;
+  }
+
+  async stop() {
+    await new Promise((resolve) => this.server.close(resolve));
+  }
+
+  authorize(
+    authorizationUrl: string,
+    claims: MockIdTokenClaims,
+    overrides: MockIdTokenOverrides = {},
+  ) {
+    const params = new URL(authorizationUrl).searchParams;
+    const code = randomBytes(16).toString('base64url');
+
+    this.codes.set(code, {
+      clientId: params.get('client_id')!,
+      redirectUri: params.get('redirect_uri')!,
+      codeChallenge: params.get('code_challenge')!,
+      nonce: params.get('nonce')!,
+      claims,
+      overrides,
+    });
+
+    return { code, state: params.get('state')! };
+  }
+
+  private async handle(req: IncomingMessage) {
+    const path = new URL(req.url!, this.issuer).pathname;
+
+    if (req.method === 'GET' && path === '/.well-known/openid-configuration') {
+      return {
+        status: 200,
+        body: {
+          issuer: this.issuer,
+          authorization_endpoint: `${this.issuer}/authorize`,
+          token_endpoint: `${this.issuer}/token`,
+          jwks_uri: `${this.issuer}/jwks`,
+        },
+      };
+    }
+
+    if (req.method === 'GET' && path === '/jwks') {
+      return {
+        status: 200,
+        body: {
+          keys: [
+            {
+              ...this.keys.publicKey.export({ format: 'jwk' }),
+              kid: KID,
+              alg: 'RS256',
+              use: 'sig',
+            },
+          ],
+        },
+      };
+    }
+
+    if (req.method === 'POST' && path === '/token') {
+      return this.exchange(new URLSearchParams(await readBody(req)));
+    }
+
+    return { status: 404, body: { error: 'not_found' } };
+  }
+
+  private exchange(form: URLSearchParams) {
+    const pending = this.codes.get(form.get('code') ?? '');
+    const verifier = form.get('code_verifier') ?? '';
+
+    // Codes work once, like at a real provider
+    this.codes.delete(form.get('code') ?? '');
+
+    if (
+      !pending ||
+      form.get('grant_type') !== 'authorization_code' ||
+      form.get('client_id') !== pending.clientId ||
+      form.get('redirect_uri') !== pending.redirectUri ||
+      createHash('sha256').update(verifier).digest('base64url') !==
+        pending.codeChallenge
+    ) {
+      return { status: 400, body: { error: 'invalid_grant' } };
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+
+    return {
+      status: 200,
+      body: {
+        access_token: randomBytes(16).toString('base64url'),
+        token_type: 'Bearer',
+        id_token: this.signIdToken({
+          ...pending.claims,
+          iss: pending.overrides.iss ?? this.issuer,
+          aud: pending.overrides.aud ?? pending.clientId,
+          nonce: pending.overrides.nonce ?? pending.nonce,
+          iat: now,
+          exp: now + 300,
+        }),
+      },
+    };
+  }
+
+  private signIdToken(payload: object) {
+    const encode = (part: object) =>
+      Buffer.from(JSON.stringify(part)).toString('base64url');
+    const signingInput = `${encode({ alg: 'RS256', typ: 'JWT', kid: KID })}.${encode(payload)}`;
+    const signature = sign(
+      'sha256',
+      Buffer.from(signingInput),
+      this.keys.privateKey,
+    );
+
+    return `${signingInput}.${signature.toString('base64url')}`;
+  }
+}
+
+async function readBody(req: IncomingMessage) {
+  let body = '';
+
+  for await (const chunk of req) {
+    body += chunk;
+  }
+
+  return body;
+}